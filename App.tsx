@@ -1,20 +1,33 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import Configuration from './components/Configuration';
 import Storyboard from './components/Storyboard';
 import Player from './components/Player';
 import BulkImageGenerator from './components/BulkImageGenerator';
 import TextToSpeechTool from './components/TextToSpeechTool';
 import ScriptGeneratorTool from './components/ScriptGeneratorTool';
+import ProjectLibrary from './components/ProjectLibrary';
+import AISettingsPanel from './components/AISettingsPanel';
 import { VideoConfig, Scene, GenerationState, Niche, ExportFormat } from './types';
 import { DEFAULT_CONFIG } from './constants';
-import { analyzeScript, generateSceneImage, generateSceneAudio } from './services/geminiService';
+import { analyzeScript, generateSceneImage, generateSceneAudio, refineVisualPrompt, editImage } from './services/geminiService';
+import { isProviderReady, IS_MOCK_MODE } from './services/aiProvider';
+import { createPipelineController, runAssetPipeline, applySceneChanges, PipelineController, PipelineCancelledError, SceneChanges } from './services/generationPipeline';
+import { measureAudioDuration } from './services/audioUtils';
+import { addImageTakes, addAudioTake, getSceneAssetUrls } from './services/sceneTakes';
+import { editSceneText } from './services/sceneEditing';
+import { EMPTY_HISTORY, recordSnapshot, undoSnapshot, redoSnapshot } from './services/editHistory';
 import { exportVideo } from './services/videoExporter';
-import { Download, Loader2, LayoutGrid, PlusCircle, Mic2, Sparkles, Video, FileText } from 'lucide-react';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION, ProjectData } from './services/projectFile';
+import { saveProject, loadProject, createProjectId, getLastProjectId, setLastProjectId, releaseObjectUrls } from './services/projectStore';
+import { Download, Loader2, LayoutGrid, PlusCircle, Mic2, Sparkles, Video, FileText, Save, FolderOpen, Library, Settings, Undo2, Redo2 } from 'lucide-react';
+
+// Delay after the last edit before the project is written to IndexedDB
+const AUTOSAVE_DELAY_MS = 1500;
 
 const App: React.FC = () => {
   const [config, setConfig] = useState<VideoConfig>(DEFAULT_CONFIG);
   const [scenes, setScenes] = useState<Scene[]>([]);
-  const [mode, setMode] = useState<'config' | 'storyboard' | 'player' | 'bulk' | 'tts' | 'script'>('config');
+  const [mode, setMode] = useState<'config' | 'storyboard' | 'player' | 'bulk' | 'tts' | 'script' | 'library' | 'settings'>('config');
   const [generationState, setGenerationState] = useState<GenerationState>({
     status: 'idle',
     progress: 0,
@@ -27,95 +40,223 @@ const App: React.FC = () => {
   const [exportProgress, setExportProgress] = useState(0);
   const [exportStatus, setExportStatus] = useState('');
 
+  // Project File State
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const pipelineRef = useRef<PipelineController | null>(null);
+
+  // Autosave State
+  const [projectId, setProjectId] = useState(() => getLastProjectId() || createProjectId());
+  const [isHydrated, setIsHydrated] = useState(false);
+  const autosaveRef = useRef<{ timer?: ReturnType<typeof setTimeout>; pending?: { id: string; data: ProjectData }; inFlight: Promise<void> }>({ inFlight: Promise.resolve() });
+  const loadedStateRef = useRef<ProjectData | null>(null); // Last project opened from the library, until it's edited
+
+  // Undo/Redo State
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const [activeSceneJobs, setActiveSceneJobs] = useState(0);
+  // Latest rendered state, so snapshots taken after an await aren't stale
+  const stateRef = useRef({ config, scenes });
+  stateRef.current = { config, scenes };
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  // Pipeline runs and per-scene jobs write results back when they finish, so history is
+  // locked until they land; otherwise a result could apply to a state it wasn't made from
+  const isBusy = generationState.status === 'analyzing' || generationState.status === 'generating_assets' || generationState.status === 'paused' || activeSceneJobs > 0;
+  const canUndo = !isBusy && history.past.length > 0;
+  const canRedo = !isBusy && history.future.length > 0;
+
+  // Call before any user edit; `key` merges rapid edits of the same field into one step
+  const recordHistory = (key?: string) => {
+    setHistory(prev => recordSnapshot(prev, stateRef.current, key));
+  };
+
+  const runSceneJob = async (job: () => Promise<void>) => {
+    setActiveSceneJobs(n => n + 1);
+    try {
+      await job();
+    } finally {
+      setActiveSceneJobs(n => n - 1);
+    }
+  };
+
+  const handleUndo = () => {
+    if (!canUndo) return;
+    const result = undoSnapshot(history, { config, scenes });
+    if (!result) return;
+    setHistory(result.history);
+    setConfig(result.snapshot.config);
+    setScenes(result.snapshot.scenes);
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    const result = redoSnapshot(history, { config, scenes });
+    if (!result) return;
+    setHistory(result.history);
+    setConfig(result.snapshot.config);
+    setScenes(result.snapshot.scenes);
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Writes the outgoing project's unsaved edits and waits for any save still reading its
+  // audio, so nothing is lost or revoked mid-save when another project takes over
+  const flushAutosave = async (saveOutgoing = true) => {
+    const autosave = autosaveRef.current;
+    clearTimeout(autosave.timer);
+    if (autosave.pending && saveOutgoing) runAutosave(autosave.pending.id, autosave.pending.data);
+    autosave.pending = undefined;
+    await autosave.inFlight;
+  };
+
+  // Frees the outgoing project's audio, including takes only its undo history still pointed at
+  const releaseOutgoingAssets = (incoming: Scene[]) => {
+    const outgoing = [stateRef.current, ...historyRef.current.past, ...historyRef.current.future].flatMap(snapshot => snapshot.scenes.flatMap(getSceneAssetUrls));
+    releaseObjectUrls(outgoing, new Set(incoming.flatMap(getSceneAssetUrls)));
+  };
+
+  // `isStored` marks a project read back from the library: it isn't re-saved until it changes
+  const applyProject = async (project: ProjectData, id: string, isStored: boolean) => {
+    stopPipeline();
+    await flushAutosave();
+    releaseOutgoingAssets(project.scenes);
+    loadedStateRef.current = isStored ? project : null;
+    setProjectId(id);
+    setConfig(project.config);
+    setScenes(project.scenes);
+    setHistory(EMPTY_HISTORY);
+    setGenerationState(project.scenes.length > 0
+      ? { status: 'ready', progress: 100, currentStep: 'Project loaded' }
+      : { status: 'idle', progress: 0, currentStep: 'Idle' });
+    setMode(project.scenes.length > 0 ? 'storyboard' : 'config');
+  };
+
+  // Resume the last project on load
+  useEffect(() => {
+    const lastId = getLastProjectId();
+    if (!lastId) {
+      setIsHydrated(true);
+      return;
+    }
+    loadProject(lastId)
+      .then(project => project ? applyProject(project, lastId, true) : undefined)
+      .catch(e => console.error("Failed to restore last project", e))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
+  // Saves run one after another so a flush can wait for all of them
+  const runAutosave = (id: string, data: ProjectData) => {
+    const autosave = autosaveRef.current;
+    autosave.inFlight = autosave.inFlight
+      .then(() => saveProject(id, data))
+      .then(() => setLastProjectId(id))
+      .catch(e => console.error("Autosave failed", e));
+  };
+
+  // Continuous autosave (debounced)
+  useEffect(() => {
+    const autosave = autosaveRef.current;
+    autosave.pending = undefined;
+    if (!isHydrated) return;
+    // Don't fill the library with untouched blank projects
+    if (config === DEFAULT_CONFIG && scenes.length === 0) return;
+    // Just opened from the library: saving would only bump its updatedAt
+    const loaded = loadedStateRef.current;
+    if (loaded && loaded.config === config && loaded.scenes === scenes) return;
+    loadedStateRef.current = null;
+
+    const data = { config, scenes };
+    autosave.pending = { id: projectId, data };
+    autosave.timer = setTimeout(() => {
+      autosave.pending = undefined;
+      runAutosave(projectId, data);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(autosave.timer);
+  }, [config, scenes, projectId, isHydrated]);
+
   // Pipeline Execution
+  const runPipeline = async (scenesToProcess: Scene[]) => {
+    const controller = createPipelineController((paused) => {
+      setGenerationState(prev => ({
+        ...prev,
+        status: paused ? 'paused' : 'generating_assets',
+        currentStep: paused ? 'Paused' : prev.currentStep
+      }));
+    });
+    pipelineRef.current = controller;
+    // A detached run (project switched or reset) keeps its in-flight call but stops touching state
+    const isCurrent = () => pipelineRef.current === controller;
+    setGenerationState({ status: 'generating_assets', progress: 20, currentStep: 'Generating Assets...' });
+
+    try {
+      await runAssetPipeline(scenesToProcess, config, controller, {
+        onSceneUpdate: (id, changes) => isCurrent() && handlePipelineUpdate(id, changes),
+        onProgress: (percent, step) => {
+          if (!isCurrent() || controller.isPaused()) return;
+          setGenerationState({ status: 'generating_assets', progress: 20 + percent * 0.8, currentStep: step });
+        }
+      });
+      if (isCurrent()) setGenerationState({ status: 'ready', progress: 100, currentStep: 'Complete' });
+    } catch (error) {
+      if (!(error instanceof PipelineCancelledError)) throw error;
+      if (isCurrent()) setGenerationState({ status: 'idle', progress: 0, currentStep: 'Generation cancelled' });
+    } finally {
+      if (isCurrent()) pipelineRef.current = null;
+    }
+  };
+
+  const stopPipeline = () => {
+    pipelineRef.current?.cancel();
+    pipelineRef.current = null;
+  };
+
   const startGeneration = async () => {
-    if (!process.env.API_KEY) {
-      alert("API Key missing in environment variables.");
+    if (!isProviderReady('text') || !isProviderReady('image') || !isProviderReady('tts')) {
+      alert("An AI provider is not configured. Add an API key or endpoint in Settings.");
+      setMode('settings');
       return;
     }
 
+    recordHistory();
     setMode('storyboard');
     setGenerationState({ status: 'analyzing', progress: 5, currentStep: 'Analyzing Script...' });
 
     try {
       // 1. Analyze Script
-      const { scenes: analyzedScenes, detectedNiche } = await analyzeScript(config);
+      const { scenes: analyzedScenes, detectedNiche } = await analyzeScript(config, (partialScenes, completed, total) => {
+        // Long scripts stream in part by part
+        setScenes(partialScenes);
+        if (total > 1) {
+          setGenerationState({ status: 'analyzing', progress: 5 + (completed / total) * 15, currentStep: `Analyzed part ${completed} of ${total}...` });
+        }
+      });
       
       if (config.niche === Niche.Auto) {
         console.log(`Detected niche: ${detectedNiche}`);
       }
 
       setScenes(analyzedScenes);
-      setGenerationState({ status: 'generating_assets', progress: 20, currentStep: 'Generating Assets...' });
-
-      // 2. Parallel Generation (Sequenced for rate limits/logic)
-      const totalAssets = analyzedScenes.length * 2;
-      let assetsCompleted = 0;
-
-      const newScenes = [...analyzedScenes];
-
-      for (let i = 0; i < newScenes.length; i++) {
-        const scene = newScenes[i];
-        
-        // Generate Image
-        setGenerationState({ status: 'generating_assets', progress: 20 + (assetsCompleted / totalAssets) * 80, currentStep: `Creating visual for Scene ${i+1}` });
-        newScenes[i].status = 'generating_image';
-        setScenes([...newScenes]);
-        
-        try {
-           const imageUrl = await generateSceneImage(scene, config);
-           newScenes[i].imageUrl = imageUrl;
-        } catch (e: any) {
-           console.error(`Image fail scene ${i}`, e);
-           newScenes[i].error = e.message || 'Image generation failed';
-        }
-        
-        assetsCompleted++;
-
-        // Generate Audio
-        setGenerationState({ status: 'generating_assets', progress: 20 + (assetsCompleted / totalAssets) * 80, currentStep: `Synthesizing voice for Scene ${i+1}` });
-        newScenes[i].status = 'generating_audio';
-        setScenes([...newScenes]);
-
-        try {
-          const audioUrl = await generateSceneAudio(scene, config);
-          newScenes[i].audioUrl = audioUrl;
-          
-          // Try to get audio duration
-          try {
-            const tempAudio = new Audio(audioUrl);
-            await new Promise((resolve) => {
-              tempAudio.onloadedmetadata = () => {
-                newScenes[i].audioDuration = tempAudio.duration;
-                resolve(null);
-              };
-              tempAudio.onerror = () => resolve(null);
-              // Timeout in case it hangs
-              setTimeout(() => resolve(null), 2000);
-            });
-          } catch (err) {
-            console.warn("Could not determine audio duration", err);
-          }
-
-        } catch (e: any) {
-           console.error(`Audio fail scene ${i}`, e);
-           newScenes[i].error = e.message || 'Audio generation failed';
-        }
-        
-        assetsCompleted++;
-        
-        if (newScenes[i].error) {
-            newScenes[i].status = 'error';
-        } else {
-            newScenes[i].status = 'ready';
-        }
-        setScenes([...newScenes]);
 
-        // Add a SUBSTANTIAL delay to avoid rate limits (5 seconds between scenes)
-        await new Promise(resolve => setTimeout(resolve, 5000));
-      }
-
-      setGenerationState({ status: 'ready', progress: 100, currentStep: 'Complete' });
+      // 2. Asset Generation (pausable, resumable)
+      await runPipeline(analyzedScenes);
 
     } catch (error) {
       console.error("Pipeline error:", error);
@@ -125,54 +266,113 @@ const App: React.FC = () => {
     }
   };
 
+  // Fills in only failed or pending assets; also used to resume after a cancel or reload
+  const handleGenerateMissing = async () => {
+    if (pipelineRef.current) return;
+    recordHistory();
+    try {
+      await runPipeline(scenes);
+    } catch (error) {
+      console.error("Pipeline error:", error);
+      setGenerationState({ status: 'idle', progress: 0, currentStep: 'Error occurred' });
+    }
+  };
+
+  const handlePauseGeneration = () => pipelineRef.current?.pause();
+  const handleResumeGeneration = () => pipelineRef.current?.resume();
+  const handleCancelGeneration = () => pipelineRef.current?.cancel();
+
   const handleUpdateScene = (updatedScene: Scene) => {
     setScenes(prev => prev.map(s => s.id === updatedScene.id ? updatedScene : s));
   };
 
-  const handleRegenerateImage = async (sceneToUpdate: Scene) => {
-    const updatedScenes = scenes.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'generating_image' as const, error: undefined } : s);
+  // Pipeline results merge into the latest scene, so changes made while it ran survive
+  const handlePipelineUpdate = (id: string, changes: SceneChanges) => {
+    setScenes(prev => prev.map(s => s.id === id ? applySceneChanges(s, changes) : s));
+  };
+
+  // Edits made by the user (as opposed to pipeline progress) go through history
+  const handleEditScene = (updatedScene: Scene) => {
+    recordHistory(`scene:${updatedScene.id}`);
+    handleUpdateScene(updatedScene);
+  };
+
+  const handleEditScenes = (updatedScenes: Scene[]) => {
+    recordHistory();
     setScenes(updatedScenes);
+  };
+
+  const handleConfigChange = (updatedConfig: VideoConfig) => {
+    recordHistory('config');
+    setConfig(updatedConfig);
+  };
+
+  // `skipHistory` lets a caller that already recorded the step chain a regeneration onto it
+  const handleRegenerateImage = (sceneToUpdate: Scene, variantCount = 1, skipHistory = false) => runSceneJob(async () => {
+    if (!skipHistory) recordHistory();
+    setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'generating_image' as const, error: undefined } : s));
     
+    // Variants are requested together; the scheduler paces them
+    const results = await Promise.allSettled(Array.from({ length: variantCount }, () => generateSceneImage(sceneToUpdate, config)));
+    const urls = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+    if (urls.length > 0) {
+      setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...addImageTakes(s, urls, sceneToUpdate.visualPrompt), status: 'ready', error: undefined } : s));
+    } else {
+      console.error(failure?.reason);
+      const errorMessage = failure?.reason?.message || 'Image generation failed';
+      setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'error', error: errorMessage } : s));
+    }
+  });
+
+  // Edits keep the scene's prompt; the result is stored as a new take on top of the current image
+  const handleEditImage = (sceneToUpdate: Scene, instruction: string) => runSceneJob(async () => {
+    if (!sceneToUpdate.imageUrl) return;
+    recordHistory();
+    setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'generating_image' as const, error: undefined } : s));
+
     try {
-      const url = await generateSceneImage(sceneToUpdate, config);
-      setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, imageUrl: url, status: 'ready', error: undefined } : s));
+      const url = await editImage(sceneToUpdate.imageUrl, instruction, config.imageAspect);
+      setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...addImageTakes(s, [url], sceneToUpdate.visualPrompt, instruction), status: 'ready', error: undefined } : s));
     } catch (e: any) {
       console.error(e);
-      const errorMessage = e.message || 'Image generation failed';
+      const errorMessage = e.message || 'Image edit failed';
       setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'error', error: errorMessage } : s));
     }
-  };
+  });
 
-  const handleRegenerateAudio = async (sceneToUpdate: Scene) => {
-    const updatedScenes = scenes.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'generating_audio' as const, error: undefined } : s);
-    setScenes(updatedScenes);
+  const handleRefinePrompt = (sceneToUpdate: Scene, instruction: string) => runSceneJob(async () => {
+    let visualPrompt: string;
+    try {
+      visualPrompt = await refineVisualPrompt(sceneToUpdate, instruction, config);
+    } catch (e: any) {
+      console.error("Prompt refinement failed", e);
+      alert(e.message || "Failed to refine prompt.");
+      return;
+    }
+    // One history step covers the new prompt and the image generated from it
+    recordHistory();
+    setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? editSceneText(s, { visualPrompt }) : s));
+    await handleRegenerateImage({ ...sceneToUpdate, visualPrompt }, 1, true);
+  });
+
+  const handleRegenerateAudio = (sceneToUpdate: Scene) => runSceneJob(async () => {
+    recordHistory();
+    setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'generating_audio' as const, error: undefined } : s));
 
     try {
-      const audioUrl = await generateSceneAudio(sceneToUpdate, config);
-      let duration = sceneToUpdate.audioDuration;
-
-      // Try to get audio duration
-      try {
-        const tempAudio = new Audio(audioUrl);
-        await new Promise((resolve) => {
-            tempAudio.onloadedmetadata = () => {
-            duration = tempAudio.duration;
-            resolve(null);
-            };
-            tempAudio.onerror = () => resolve(null);
-            setTimeout(() => resolve(null), 2000);
-        });
-      } catch (err) {
-        console.warn("Could not determine audio duration", err);
-      }
+      const { url, voice } = await generateSceneAudio(sceneToUpdate, config);
+      const duration = (await measureAudioDuration(url)) ?? sceneToUpdate.audioDuration;
+      const take = { url, duration, voice, text: sceneToUpdate.scriptText };
 
-      setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, audioUrl, audioDuration: duration, status: 'ready', error: undefined } : s));
+      setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...addAudioTake(s, take), status: 'ready', error: undefined } : s));
     } catch (e: any) {
        console.error("Audio regen failed", e);
        const errorMessage = e.message || 'Audio generation failed';
        setScenes(prev => prev.map(s => s.id === sceneToUpdate.id ? { ...s, status: 'error', error: errorMessage } : s));
     }
-  };
+  });
 
   const handleExportVideo = async (format: ExportFormat = ExportFormat.Video1080p) => {
     const readyScenes = scenes.filter(s => s.status === 'ready' && s.imageUrl && s.audioUrl);
@@ -189,6 +389,12 @@ const App: React.FC = () => {
       const blob = await exportVideo(readyScenes, {
         aspectRatio: config.imageAspect,
         format: format,
+        transitionType: config.transitionType,
+        transitionDuration: config.transitionDuration,
+        captions: config.captions,
+        backgroundMusic: config.backgroundMusic,
+        music: config.music,
+        limiter: config.audioProcessing.limiter,
         onProgress: (p, s) => {
           setExportProgress(p);
           setExportStatus(s);
@@ -201,13 +407,19 @@ const App: React.FC = () => {
       a.href = url;
       
       let ext = 'mp4';
-      if (format === ExportFormat.AudioOnly) {
-          ext = blob.type.includes('mp4') || blob.type.includes('aac') ? 'm4a' : 'wav';
+      if (format === ExportFormat.AudioWav) {
+          ext = 'wav';
+      } else if (format === ExportFormat.AudioMp3) {
+          ext = 'mp3';
+      } else if (format === ExportFormat.SubtitlesSrt) {
+          ext = 'srt';
+      } else if (format === ExportFormat.SubtitlesVtt) {
+          ext = 'vtt';
       } else if (blob.type.includes('webm')) {
           ext = 'webm';
       }
 
-      const qualityLabel = format.replace('video_', '').replace('audio_only', 'audio');
+      const qualityLabel = format.replace('video_', '').replace(/^audio_\w+$/, 'audio').replace('subtitles_', 'captions_');
       const filename = `vidgen_${config.niche}_${qualityLabel}_${new Date().toISOString().slice(0,10)}.${ext}`;
       
       a.download = filename;
@@ -224,7 +436,79 @@ const App: React.FC = () => {
     }
   };
   
+  const handleSaveProject = async () => {
+    setIsSavingProject(true);
+    try {
+      const blob = await serializeProject({ config, scenes });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `vidgen_project_${config.niche}_${new Date().toISOString().slice(0,10)}${PROJECT_FILE_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Project save failed", error);
+      alert("Failed to save project. See console for details.");
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = await parseProject(file);
+      // Imported files become a new entry in the library
+      await applyProject(project, createProjectId(), false);
+    } catch (error: any) {
+      console.error("Project open failed", error);
+      alert(error.message || "Failed to open project.");
+    }
+  };
+
+  const handleOpenStoredProject = async (id: string) => {
+    try {
+      // Reopening the current project should read back its latest edits
+      await flushAutosave();
+      const project = await loadProject(id);
+      if (!project) throw new Error("Project not found.");
+      await applyProject(project, id, true);
+      setLastProjectId(id);
+    } catch (error: any) {
+      console.error("Failed to load project", error);
+      alert(error.message || "Failed to load project.");
+    }
+  };
+
+  // `saveOutgoing` is false when the current project was just deleted
+  const resetProject = async (saveOutgoing = true) => {
+    stopPipeline();
+    await flushAutosave(saveOutgoing);
+    releaseOutgoingAssets([]);
+    loadedStateRef.current = null;
+    setProjectId(createProjectId());
+    setConfig(DEFAULT_CONFIG);
+    setScenes([]);
+    setHistory(EMPTY_HISTORY);
+    setGenerationState({ status: 'idle', progress: 0, currentStep: 'Idle' });
+  };
+
+  const handleNewProject = async () => {
+    await resetProject();
+    setMode('config');
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (id === projectId) resetProject(false);
+  };
+
   const handleUseGeneratedScript = (scriptText: string, niche: Niche) => {
+      recordHistory();
       setConfig(prev => ({
           ...prev,
           scriptText,
@@ -259,6 +543,9 @@ const App: React.FC = () => {
               <Video size={16} fill="currentColor" className="text-white" />
             </div>
             <span className="font-bold text-lg tracking-tight text-white/90">VidGen<span className="text-indigo-400">Studio</span></span>
+            {IS_MOCK_MODE && (
+              <span className="text-[9px] font-bold uppercase tracking-wider text-amber-300 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded" title="MOCK_AI is set: all AI output is offline placeholder data">Mock AI</span>
+            )}
           </div>
           
           <div className="flex items-center gap-2 md:gap-4">
@@ -272,7 +559,62 @@ const App: React.FC = () => {
               </button>
             )}
 
+            <div className="flex items-center gap-1">
+                <button 
+                    onClick={handleUndo}
+                    disabled={!canUndo}
+                    className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                    title="Undo (Ctrl+Z)"
+                >
+                    <Undo2 size={16} />
+                </button>
+                <button 
+                    onClick={handleRedo}
+                    disabled={!canRedo}
+                    className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                    title="Redo (Ctrl+Shift+Z)"
+                >
+                    <Redo2 size={16} />
+                </button>
+                <input 
+                    type="file" 
+                    ref={projectInputRef}
+                    accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                    className="hidden" 
+                    onChange={handleOpenProject}
+                />
+                <button 
+                    onClick={() => projectInputRef.current?.click()}
+                    className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-all"
+                    title="Open Project"
+                >
+                    <FolderOpen size={16} />
+                </button>
+                <button 
+                    onClick={handleSaveProject}
+                    disabled={isSavingProject}
+                    className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-all disabled:opacity-50"
+                    title="Save Project"
+                >
+                    {isSavingProject ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                </button>
+                <button 
+                    onClick={() => setMode('settings')}
+                    className={`p-2 rounded-full transition-all ${mode === 'settings' ? 'text-white bg-white/10' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
+                    title="AI Provider Settings"
+                >
+                    <Settings size={16} />
+                </button>
+            </div>
+
             <nav className="flex items-center bg-white/5 rounded-full p-1 border border-white/5">
+                <button 
+                onClick={() => setMode('library')}
+                className={`text-xs font-semibold flex items-center gap-2 px-3 py-1.5 rounded-full transition-all ${mode === 'library' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
+                >
+                <Library size={14} /> <span className="hidden sm:inline">Projects</span>
+                </button>
+
                 <button 
                 onClick={() => setMode('bulk')}
                 className={`text-xs font-semibold flex items-center gap-2 px-3 py-1.5 rounded-full transition-all ${mode === 'bulk' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
@@ -310,7 +652,7 @@ const App: React.FC = () => {
            <div className="h-full overflow-y-auto py-8 md:py-12 px-4 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
              <Configuration 
                config={config} 
-               onChange={setConfig} 
+               onChange={handleConfigChange} 
                onStart={startGeneration}
                isProcessing={generationState.status !== 'idle' && generationState.status !== 'ready'} 
              />
@@ -321,9 +663,19 @@ const App: React.FC = () => {
           <Storyboard 
             scenes={scenes}
             generationState={generationState}
+            targetDurationMinutes={config.targetDurationMinutes}
+            characters={config.characters}
+            hasSceneJobs={activeSceneJobs > 0}
             onRegenerateImage={handleRegenerateImage}
             onRegenerateAudio={handleRegenerateAudio}
-            onUpdateScene={handleUpdateScene}
+            onRefinePrompt={handleRefinePrompt}
+            onEditImage={handleEditImage}
+            onUpdateScene={handleEditScene}
+            onScenesChange={handleEditScenes}
+            onGenerateMissing={handleGenerateMissing}
+            onPauseGeneration={handlePauseGeneration}
+            onResumeGeneration={handleResumeGeneration}
+            onCancelGeneration={handleCancelGeneration}
             onPreview={(index) => {
                setPlayerStartIndex(index || 0);
                setMode('player');
@@ -336,12 +688,28 @@ const App: React.FC = () => {
           <Player 
             scenes={scenes}
             initialSceneIndex={playerStartIndex}
-            onUpdateScene={handleUpdateScene}
+            onUpdateScene={handleEditScene}
+            transitionType={config.transitionType}
+            transitionDuration={config.transitionDuration}
             onClose={() => setMode('storyboard')} 
             onExport={() => handleExportVideo(ExportFormat.Video1080p)}
           />
         )}
 
+        {mode === 'library' && (
+          <ProjectLibrary 
+            currentProjectId={projectId}
+            onOpen={handleOpenStoredProject}
+            onNew={handleNewProject}
+            onDeleted={handleProjectDeleted}
+            onBack={() => setMode('config')}
+          />
+        )}
+
+        {mode === 'settings' && (
+          <AISettingsPanel onBack={() => setMode('config')} />
+        )}
+
         {mode === 'bulk' && (
           <BulkImageGenerator onBack={() => setMode('config')} />
         )}
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { AISettings, ProviderSettings, ProviderType, RateLimit, RequestKind } from '../types';
+import { DEFAULT_PROVIDERS, DEFAULT_OPENAI_PROVIDERS, DEFAULT_RATE_LIMITS, PROVIDER_OPTIONS } from '../constants';
+import { getAISettings, saveAISettings, IS_MOCK_MODE } from '../services/aiProvider';
+import { Settings, FileText, Image as ImageIcon, Mic2, Save, RotateCcw, CheckCircle2 } from 'lucide-react';
+
+interface Props {
+  onBack: () => void;
+}
+
+const CAPABILITIES: { kind: RequestKind; label: string; hint: string; icon: React.ReactNode }[] = [
+  { kind: 'text', label: 'Script Analysis', hint: 'Scene splitting, story prompts and script writing', icon: <FileText size={16} /> },
+  { kind: 'image', label: 'Image Generation', hint: 'Scene visuals and the bulk image tool', icon: <ImageIcon size={16} /> },
+  { kind: 'tts', label: 'Speech Synthesis', hint: 'Narration and the voice tool', icon: <Mic2 size={16} /> },
+];
+
+const PROVIDER_LABELS: Record<ProviderType, string> = {
+  [ProviderType.Gemini]: 'Google Gemini',
+  [ProviderType.OpenAICompatible]: 'OpenAI-compatible',
+  [ProviderType.Mock]: 'Offline Mock',
+};
+
+const inputClass = "w-full bg-white/5 text-xs py-2 px-3 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none text-white";
+
+const AISettingsPanel: React.FC<Props> = ({ onBack }) => {
+  const [settings, setSettings] = useState<AISettings>(getAISettings);
+  const [saved, setSaved] = useState(false);
+
+  const updateProvider = (kind: RequestKind, changes: Partial<ProviderSettings>) => {
+    setSaved(false);
+    setSettings(prev => ({ ...prev, providers: { ...prev.providers, [kind]: { ...prev.providers[kind], ...changes } } }));
+  };
+
+  const updateRateLimit = (kind: RequestKind, field: keyof RateLimit, value: number) => {
+    setSaved(false);
+    setSettings(prev => ({ ...prev, rateLimits: { ...prev.rateLimits, [kind]: { ...prev.rateLimits[kind], [field]: value } } }));
+  };
+
+  // Switching vendor starts from that vendor's presets rather than carrying over model names
+  const handleTypeChange = (kind: RequestKind, type: ProviderType) => {
+    const preset = type === ProviderType.Gemini ? DEFAULT_PROVIDERS[kind]
+      : type === ProviderType.OpenAICompatible ? DEFAULT_OPENAI_PROVIDERS[kind]
+      : { type, model: 'mock' };
+    updateProvider(kind, { ...preset, apiKey: settings.providers[kind].apiKey });
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    setSaved(false);
+    setSettings({ providers: DEFAULT_PROVIDERS, rateLimits: DEFAULT_RATE_LIMITS });
+  };
+
+  return (
+    <div className="p-4 md:p-8 max-w-5xl mx-auto animate-fade-in h-full overflow-y-auto">
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between sticky top-0 bg-[#0f172a] z-10 py-4 border-b border-slate-800/50">
+         <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-indigo-400 to-cyan-400 bg-clip-text text-transparent mb-2 flex items-center gap-3">
+                <Settings className="text-indigo-400" /> AI Providers
+            </h1>
+            <p className="text-slate-400">Choose which service handles each capability. Settings stay in this browser.</p>
+         </div>
+         <div className="flex items-center gap-3">
+            <button
+                onClick={handleReset}
+                className="flex items-center gap-2 text-slate-400 hover:text-white px-4 py-2 rounded-lg hover:bg-slate-800 transition-colors border border-transparent hover:border-slate-700 text-sm"
+            >
+                <RotateCcw size={14} /> Defaults
+            </button>
+            <button
+                onClick={handleSave}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg transition-colors shadow-lg shadow-indigo-500/20"
+            >
+                {saved ? <CheckCircle2 size={16} /> : <Save size={16} />} {saved ? 'Saved' : 'Save'}
+            </button>
+            <button
+                onClick={onBack}
+                className="text-slate-400 hover:text-white px-4 py-2 rounded-lg hover:bg-slate-800 transition-colors border border-transparent hover:border-slate-700"
+            >
+                Back to Studio
+            </button>
+         </div>
+      </div>
+
+      {IS_MOCK_MODE && (
+        <div className="mb-6 p-4 rounded-xl border border-amber-500/20 bg-amber-500/5 text-xs text-amber-300">
+          MOCK_AI is enabled for this build, so every capability uses the offline mock regardless of the choices below.
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {CAPABILITIES.map(({ kind, label, hint, icon }) => {
+          const provider = settings.providers[kind];
+          const limit = settings.rateLimits[kind];
+          const isHttp = provider.type === ProviderType.OpenAICompatible;
+
+          return (
+            <div key={kind} className="bg-[#0B0F15] p-6 rounded-2xl border border-white/5 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="text-indigo-400">{icon}</div>
+                  <div>
+                    <h3 className="text-sm font-bold text-white">{label}</h3>
+                    <p className="text-[11px] text-slate-500">{hint}</p>
+                  </div>
+                </div>
+                <div className="flex bg-white/5 rounded-lg p-1">
+                  {PROVIDER_OPTIONS.map(type => (
+                    <button
+                      key={type}
+                      onClick={() => handleTypeChange(kind, type)}
+                      className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-md transition-all ${provider.type === type ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      {PROVIDER_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <span className="text-[9px] text-slate-500 font-bold uppercase block">Model</span>
+                  <input className={inputClass} value={provider.model} onChange={(e) => updateProvider(kind, { model: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <span className="text-[9px] text-slate-500 font-bold uppercase block">API Key</span>
+                  <input
+                    type="password"
+                    className={inputClass}
+                    value={provider.apiKey || ''}
+                    placeholder={isHttp ? 'Optional for local servers' : 'Uses the build-time key when empty'}
+                    onChange={(e) => updateProvider(kind, { apiKey: e.target.value || undefined })}
+                  />
+                </div>
+                {isHttp && (
+                  <div className="space-y-1 md:col-span-2">
+                    <span className="text-[9px] text-slate-500 font-bold uppercase block">Endpoint URL</span>
+                    <input
+                      className={inputClass}
+                      value={provider.baseUrl || ''}
+                      placeholder="http://localhost:8080/v1"
+                      onChange={(e) => updateProvider(kind, { baseUrl: e.target.value })}
+                    />
+                  </div>
+                )}
+                {kind === 'tts' && (
+                  <div className="space-y-1">
+                    <span className="text-[9px] text-slate-500 font-bold uppercase block">Voice Override</span>
+                    <input
+                      className={inputClass}
+                      value={provider.voice || ''}
+                      placeholder="Use the narrator voice"
+                      onChange={(e) => updateProvider(kind, { voice: e.target.value || undefined })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 pt-4 border-t border-white/5">
+                <div className="space-y-1">
+                  <span className="text-[9px] text-slate-500 font-bold uppercase block">Parallel Requests</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="16"
+                    className={inputClass}
+                    value={limit.concurrency}
+                    onChange={(e) => updateRateLimit(kind, 'concurrency', Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <span className="text-[9px] text-slate-500 font-bold uppercase block">Requests / Minute</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="1000"
+                    className={inputClass}
+                    value={limit.requestsPerMinute}
+                    onChange={(e) => updateRateLimit(kind, 'requestsPerMinute', Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ImageAspect, VisualStyle } from '../types';
 import { ASPECT_OPTIONS, STYLE_OPTIONS } from '../constants';
-import { generateImage, generateStoryScenePrompts } from '../services/geminiService';
-import { Download, Loader2, Image as ImageIcon, Wand2, Trash2, LayoutGrid, XCircle, Infinity, Square, BookOpen, Layers, RefreshCw } from 'lucide-react';
+import { generateImage, generateStoryScenePrompts, editImage } from '../services/geminiService';
+import { getRateLimits } from '../services/rateLimiter';
+import { Download, Loader2, Image as ImageIcon, Wand2, Trash2, LayoutGrid, XCircle, Infinity, Square, BookOpen, Layers, RefreshCw, Edit2 } from 'lucide-react';
 
 interface Props {
     onBack: () => void;
@@ -30,26 +31,17 @@ const BulkImageGenerator: React.FC<Props> = ({ onBack }) => {
     const [activeRequests, setActiveRequests] = useState(0);
     const [results, setResults] = useState<GeneratedImage[]>([]);
     const [isAnalyzingStory, setIsAnalyzingStory] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editInstruction, setEditInstruction] = useState('');
     
     // Auto-Generation State
     const [isAutoGenerating, setIsAutoGenerating] = useState(false);
-    const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
     // Continuous Generation Loop (Only for Free Mode)
+    // Keeps the shared image queue topped up; the request scheduler handles pacing and 429s
     useEffect(() => {
-        if (isAutoGenerating && mode === 'free') {
-            const checkAndGenerate = () => {
-                if (activeRequests < 3 && prompt) {
-                    triggerSingleGeneration();
-                }
-            };
-            
-            const interval = setInterval(checkAndGenerate, 6000); // 6s interval for rate safety
-            timerRef.current = interval;
-
-            return () => clearInterval(interval);
-        } else {
-            if (timerRef.current) clearInterval(timerRef.current);
+        if (isAutoGenerating && mode === 'free' && prompt && activeRequests < getRateLimits().image.concurrency) {
+            triggerSingleGeneration();
         }
     }, [isAutoGenerating, activeRequests, prompt, mode]);
 
@@ -118,22 +110,15 @@ const BulkImageGenerator: React.FC<Props> = ({ onBack }) => {
             }));
             setResults(newItems);
 
-            // 3. Generate one by one (or small batch)
-            // We'll do them sequentially to be safe with rate limits.
-            for (let i = 0; i < scenePrompts.length; i++) {
-                const item = newItems[i];
-                const p = scenePrompts[i];
-                
+            // 3. Generate in parallel; the request scheduler limits concurrency and rate
+            await Promise.all(newItems.map(async (item) => {
                 try {
-                    const url = await generateImage(p, aspect);
+                    const url = await generateImage(item.prompt!, aspect);
                     setResults(prev => prev.map(r => r.id === item.id ? { ...r, url, status: 'success' } : r));
                 } catch (e) {
                     setResults(prev => prev.map(r => r.id === item.id ? { ...r, status: 'error' } : r));
                 }
-                
-                // 6-second delay between batch items to prevent 429 errors
-                await new Promise(r => setTimeout(r, 6000));
-            }
+            }));
 
         } catch (error) {
             console.error("Story generation failed", error);
@@ -158,6 +143,30 @@ const BulkImageGenerator: React.FC<Props> = ({ onBack }) => {
         }
     };
 
+    // The edited version is added next to the original, which stays in the gallery
+    const handleEdit = async (id: string) => {
+        const item = results.find(r => r.id === id);
+        const instruction = editInstruction.trim();
+        if (!item || !instruction) return;
+        setEditingId(null);
+        setEditInstruction('');
+
+        const editId = `${id}-edit-${Date.now()}`;
+        const editItem: GeneratedImage = { id: editId, url: '', status: 'loading', label: `${item.label || 'Image'} · Edit`, prompt: item.prompt };
+        setResults(prev => {
+            const index = prev.findIndex(r => r.id === id);
+            return [...prev.slice(0, index + 1), editItem, ...prev.slice(index + 1)];
+        });
+
+        try {
+            const url = await editImage(item.url, instruction, aspect);
+            setResults(prev => prev.map(r => r.id === editId ? { ...r, url, status: 'success' } : r));
+        } catch (e) {
+            console.error(`Edit failed for ${id}`, e);
+            setResults(prev => prev.map(r => r.id === editId ? { ...r, status: 'error' } : r));
+        }
+    };
+
     const toggleAutoGenerate = () => {
         if (!prompt) return;
         setIsAutoGenerating(!isAutoGenerating);
@@ -407,6 +416,13 @@ const BulkImageGenerator: React.FC<Props> = ({ onBack }) => {
                                                 >
                                                     <Download size={18} /> Download
                                                 </a>
+                                                <button 
+                                                    onClick={() => { setEditingId(res.id); setEditInstruction(''); }}
+                                                    className="p-2 bg-white/10 text-white hover:bg-indigo-500 rounded-lg transition-colors"
+                                                    title="Edit with an instruction"
+                                                >
+                                                    <Edit2 size={20} />
+                                                </button>
                                                 <button 
                                                     onClick={() => removeImage(res.id)}
                                                     className="p-2 bg-red-500/20 text-red-200 hover:bg-red-500 hover:text-white rounded-lg transition-colors"
@@ -415,6 +431,25 @@ const BulkImageGenerator: React.FC<Props> = ({ onBack }) => {
                                                 </button>
                                             </div>
                                         </div>
+
+                                        {editingId === res.id && (
+                                            <form
+                                                className="absolute inset-x-4 bottom-4 z-30 flex items-center gap-2 bg-black/85 backdrop-blur border border-white/10 rounded-lg px-3 py-2"
+                                                onSubmit={(e) => { e.preventDefault(); handleEdit(res.id); }}
+                                            >
+                                                <Wand2 size={14} className="text-indigo-400 shrink-0" />
+                                                <input
+                                                    autoFocus
+                                                    className="flex-1 min-w-0 bg-transparent text-sm text-white outline-none placeholder:text-slate-500"
+                                                    value={editInstruction}
+                                                    onChange={(e) => setEditInstruction(e.target.value)}
+                                                    onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                                                    placeholder="Remove the object, change the color, extend the background…"
+                                                />
+                                                <button type="submit" disabled={!editInstruction.trim()} className="text-xs font-bold text-indigo-300 hover:text-white disabled:opacity-40 transition-colors">Apply</button>
+                                                <button type="button" onClick={() => setEditingId(null)} className="text-slate-500 hover:text-white transition-colors"><XCircle size={14} /></button>
+                                            </form>
+                                        )}
                                     </>
                                 ) : res.status === 'error' ? (
                                     <div className="w-full h-full flex flex-col items-center justify-center text-red-400 bg-red-900/10 border-2 border-red-900/20 relative">
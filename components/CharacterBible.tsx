@@ -0,0 +1,132 @@
+import React from 'react';
+import { Character } from '../types';
+import { VOICE_PROFILES } from '../constants';
+import { UserPlus, Trash2, ImagePlus, X, BookUser } from 'lucide-react';
+
+interface Props {
+  characters: Character[];
+  onChange: (characters: Character[]) => void;
+}
+
+const createCharacterId = () => `char-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+const CharacterBible: React.FC<Props> = ({ characters, onChange }) => {
+  const updateCharacter = (id: string, changes: Partial<Character>) => {
+    onChange(characters.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const addCharacter = () => {
+    onChange([...characters, { id: createCharacterId(), name: '', appearance: '', wardrobe: '', referenceImage: null }]);
+  };
+
+  const removeCharacter = (id: string) => {
+    onChange(characters.filter(c => c.id !== id));
+  };
+
+  const handlePortraitUpload = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        updateCharacter(id, { referenceImage: reader.result as string });
+      };
+      reader.readAsDataURL(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <BookUser size={14} /> Character Bible
+        </label>
+        <button
+          onClick={addCharacter}
+          className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-indigo-300 hover:text-white px-2 py-1 rounded-md hover:bg-white/5 transition-colors"
+        >
+          <UserPlus size={12} /> Add
+        </button>
+      </div>
+
+      {characters.length === 0 ? (
+        <p className="text-[11px] text-slate-600">
+          Name your recurring characters. Each scene is tagged with who appears in it, and only their descriptions and portraits are sent with that scene's image. Give a character a voice to have their dialogue read in it.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {characters.map(character => (
+            <div key={character.id} className="flex gap-3 bg-black/20 border border-white/5 rounded-xl p-3">
+              {/* Portrait */}
+              <div className="w-16 h-16 shrink-0 rounded-lg overflow-hidden bg-white/5 border border-white/10 relative group">
+                {character.referenceImage ? (
+                  <>
+                    <img src={character.referenceImage} alt={character.name} className="w-full h-full object-cover" />
+                    <button
+                      onClick={() => updateCharacter(character.id, { referenceImage: null })}
+                      className="absolute top-0.5 right-0.5 p-0.5 bg-black/70 rounded text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove portrait"
+                    >
+                      <X size={10} />
+                    </button>
+                  </>
+                ) : (
+                  <label className="w-full h-full flex items-center justify-center text-slate-600 hover:text-indigo-300 cursor-pointer transition-colors" title="Upload portrait">
+                    <ImagePlus size={18} />
+                    <input type="file" accept="image/*" className="hidden" onChange={(e) => handlePortraitUpload(character.id, e)} />
+                  </label>
+                )}
+              </div>
+
+              {/* Details */}
+              <div className="flex-1 space-y-2 min-w-0">
+                <div className="flex items-center gap-2">
+                  <input
+                    className="flex-1 min-w-0 bg-transparent border-b border-white/10 text-sm font-bold text-white outline-none focus:border-indigo-500/50 placeholder:text-slate-600"
+                    value={character.name}
+                    onChange={(e) => updateCharacter(character.id, { name: e.target.value })}
+                    placeholder="Name"
+                  />
+                  <button
+                    onClick={() => removeCharacter(character.id)}
+                    className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                    title="Remove character"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+                <input
+                  className="w-full bg-transparent border-b border-white/5 text-xs text-slate-300 outline-none focus:border-indigo-500/30 placeholder:text-slate-600"
+                  value={character.appearance}
+                  onChange={(e) => updateCharacter(character.id, { appearance: e.target.value })}
+                  placeholder="Appearance (age, build, face, hair)"
+                />
+                <input
+                  className="w-full bg-transparent border-b border-white/5 text-xs text-slate-300 outline-none focus:border-indigo-500/30 placeholder:text-slate-600"
+                  value={character.wardrobe}
+                  onChange={(e) => updateCharacter(character.id, { wardrobe: e.target.value })}
+                  placeholder="Wardrobe"
+                />
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Voice</span>
+                  <select
+                    className="flex-1 min-w-0 bg-transparent border-b border-white/5 text-xs text-slate-300 outline-none focus:border-indigo-500/30 cursor-pointer"
+                    value={character.voiceName || ''}
+                    onChange={(e) => updateCharacter(character.id, { voiceName: e.target.value || undefined })}
+                  >
+                    <option value="" className="bg-slate-900">Narrator voice</option>
+                    {VOICE_PROFILES.map(v => (
+                      <option key={v.name} value={v.name} className="bg-slate-900">{v.name} ({v.gender}, {v.style})</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CharacterBible;
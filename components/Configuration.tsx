@@ -1,7 +1,10 @@
 import React, { useRef } from 'react';
-import { VideoConfig } from '../types';
-import { NICHE_OPTIONS, STYLE_OPTIONS, ASPECT_OPTIONS, VOICE_PROFILES, SAFETY_OPTIONS, TRANSITION_OPTIONS } from '../constants';
-import { Film, Wand2, Volume2, Shield, Clock, Users, Sparkles, ChevronDown, Layers, Palette, Grid, ImagePlus, X } from 'lucide-react';
+import { VideoConfig, TransitionType, CaptionStyle, CaptionMode, ImageAspect, MusicSettings, AudioProcessingSettings, VoiceDirection } from '../types';
+import { NICHE_OPTIONS, STYLE_OPTIONS, ASPECT_OPTIONS, VOICE_PROFILES, SAFETY_OPTIONS, TRANSITION_OPTIONS, CAPTION_FONTS, CAPTION_POSITION_OPTIONS, CAPTION_MODE_OPTIONS, NICHE_VOICE_DIRECTION, PACE_OPTIONS, PAUSE_OPTIONS, VOICE_TONE_SUGGESTIONS } from '../constants';
+import { planPacing, formatRuntime } from '../services/pacing';
+import CharacterBible from './CharacterBible';
+import PronunciationDictionary from './PronunciationDictionary';
+import { Film, Wand2, Volume2, Shield, Clock, Users, Sparkles, ChevronDown, Layers, Palette, Grid, ImagePlus, X, Captions, Music, AlertTriangle, Mic, SlidersHorizontal } from 'lucide-react';
 
 interface Props {
   config: VideoConfig;
@@ -12,11 +15,46 @@ interface Props {
 
 const Configuration: React.FC<Props> = ({ config, onChange, onStart, isProcessing }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const musicInputRef = useRef<HTMLInputElement>(null);
   
   const handleChange = (field: keyof VideoConfig, value: any) => {
     onChange({ ...config, [field]: value });
   };
 
+  const handleCaptionChange = (field: keyof CaptionStyle, value: any) => {
+    onChange({ ...config, captions: { ...config.captions, [field]: value } });
+  };
+
+  const handleMusicChange = (field: keyof MusicSettings, value: any) => {
+    onChange({ ...config, music: { ...config.music, [field]: value } });
+  };
+
+  const handleProcessingChange = (field: keyof AudioProcessingSettings, value: any) => {
+    onChange({ ...config, audioProcessing: { ...config.audioProcessing, [field]: value } });
+  };
+
+  // Empty values fall back to the niche preset
+  const handleDirectionChange = (field: keyof VoiceDirection, value: string) => {
+    onChange({ ...config, voiceDirection: { ...config.voiceDirection, [field]: value || undefined } });
+  };
+  const nicheDirection = NICHE_VOICE_DIRECTION[config.niche];
+
+  const handleMusicUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        handleChange('backgroundMusic', { name: file.name, dataUrl: reader.result as string });
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const removeBackgroundMusic = () => {
+    handleChange('backgroundMusic', null);
+    if (musicInputRef.current) musicInputRef.current.value = '';
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -33,8 +71,9 @@ const Configuration: React.FC<Props> = ({ config, onChange, onStart, isProcessin
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const wordCount = config.scriptText ? config.scriptText.trim().split(/\s+/).length : 0;
-  const estimatedReadTimeMin = Math.max(1, Math.ceil(wordCount / 150));
+  const pacing = planPacing(config);
+  const wordCount = pacing.wordCount;
+  const estimatedReadTimeMin = Math.max(1, Math.ceil(pacing.scriptSeconds / 60));
 
   const formatDuration = (minutes: number) => {
     if (minutes < 60) return `${minutes} min`;
@@ -110,6 +149,262 @@ const Configuration: React.FC<Props> = ({ config, onChange, onStart, isProcessin
                         placeholder="Define persistent characters (e.g., 'Protagonist: 30yo man, beard, red jacket')."
                     />
                 </div>
+
+                {/* Character Bible */}
+                <CharacterBible
+                    characters={config.characters}
+                    onChange={(characters) => handleChange('characters', characters)}
+                />
+
+                {/* Pronunciation Dictionary */}
+                <PronunciationDictionary
+                    entries={config.pronunciations}
+                    onChange={(pronunciations) => handleChange('pronunciations', pronunciations)}
+                />
+
+                {/* Captions Panel */}
+                <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-5 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                            <Captions size={14} /> Burned-in Captions
+                        </label>
+                        <button
+                            onClick={() => handleCaptionChange('enabled', !config.captions.enabled)}
+                            className={`w-9 h-5 rounded-full relative transition-colors ${config.captions.enabled ? 'bg-indigo-500' : 'bg-white/10'}`}
+                        >
+                            <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${config.captions.enabled ? 'left-[1.125rem]' : 'left-0.5'}`}></span>
+                        </button>
+                    </div>
+
+                    {config.captions.enabled && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <div className="col-span-full flex bg-black/20 p-1 rounded-lg border border-white/5">
+                                {CAPTION_MODE_OPTIONS.map(m => (
+                                    <button
+                                        key={m}
+                                        onClick={() => handleCaptionChange('mode', m)}
+                                        className={`flex-1 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-md transition-all ${config.captions.mode === m ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+                                    >
+                                        {m === CaptionMode.Karaoke ? 'Word-by-Word' : 'Sentences'}
+                                    </button>
+                                ))}
+                            </div>
+                            {config.captions.mode === CaptionMode.Karaoke && config.imageAspect !== ImageAspect.NineSixteen && (
+                                <p className="col-span-full text-[10px] text-slate-500">Word-by-word captions are designed for 9:16 shorts.</p>
+                            )}
+                            <div className="space-y-1">
+                                <span className="text-[9px] text-slate-500 font-bold uppercase block">Font</span>
+                                <select 
+                                    className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none"
+                                    value={config.captions.fontFamily}
+                                    onChange={(e) => handleCaptionChange('fontFamily', e.target.value)}
+                                >
+                                    {CAPTION_FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            </div>
+                            <div className="space-y-1">
+                                <span className="text-[9px] text-slate-500 font-bold uppercase block">Position</span>
+                                <select 
+                                    className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none"
+                                    value={config.captions.position}
+                                    onChange={(e) => handleCaptionChange('position', e.target.value)}
+                                >
+                                    {CAPTION_POSITION_OPTIONS.map(p => <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>)}
+                                </select>
+                            </div>
+                            <div className="space-y-1">
+                                <span className="text-[9px] text-slate-500 font-bold uppercase block">Size</span>
+                                <input 
+                                    type="number"
+                                    min="16"
+                                    max="160"
+                                    step="2"
+                                    className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none"
+                                    value={config.captions.fontSize}
+                                    onChange={(e) => handleCaptionChange('fontSize', parseInt(e.target.value) || config.captions.fontSize)}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <span className="text-[9px] text-slate-500 font-bold uppercase block">Max Lines</span>
+                                <input 
+                                    type="number"
+                                    min="1"
+                                    max="4"
+                                    className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none"
+                                    value={config.captions.maxLines}
+                                    onChange={(e) => handleCaptionChange('maxLines', parseInt(e.target.value) || 1)}
+                                />
+                            </div>
+                            {config.captions.mode === CaptionMode.Karaoke && (
+                                <div className="space-y-1">
+                                    <span className="text-[9px] text-slate-500 font-bold uppercase block">Highlight</span>
+                                    <input 
+                                        type="color"
+                                        className="w-full h-7 bg-white/5 rounded-lg border border-white/5 cursor-pointer"
+                                        value={config.captions.highlightColor}
+                                        onChange={(e) => handleCaptionChange('highlightColor', e.target.value)}
+                                    />
+                                </div>
+                            )}
+                            <label className="col-span-full flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                                <input 
+                                    type="checkbox"
+                                    className="accent-indigo-500"
+                                    checked={config.captions.showBackground}
+                                    onChange={(e) => handleCaptionChange('showBackground', e.target.checked)}
+                                />
+                                Background box
+                            </label>
+                        </div>
+                    )}
+                </div>
+
+                {/* Background Music Panel */}
+                <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-5 space-y-4">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                        <Music size={14} /> Background Music
+                    </label>
+                    <input 
+                        type="file" 
+                        ref={musicInputRef}
+                        accept="audio/*" 
+                        className="hidden" 
+                        onChange={handleMusicUpload}
+                    />
+                    {config.backgroundMusic ? (
+                        <div className="space-y-4">
+                            <div className="flex items-center justify-between bg-black/20 border border-white/5 rounded-lg px-3 py-2">
+                                <span className="text-xs text-slate-300 truncate">{config.backgroundMusic.name}</span>
+                                <button onClick={removeBackgroundMusic} className="text-slate-500 hover:text-red-400 transition-colors">
+                                    <X size={14} />
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-[9px] text-slate-500 font-bold uppercase">
+                                        <span>Music Level</span>
+                                        <span className="font-mono text-indigo-300">{Math.round(config.music.volume * 100)}%</span>
+                                    </div>
+                                    <input 
+                                        type="range" min="0" max="1" step="0.05"
+                                        className="w-full accent-indigo-500 cursor-pointer"
+                                        value={config.music.volume}
+                                        onChange={(e) => handleMusicChange('volume', parseFloat(e.target.value))}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-[9px] text-slate-500 font-bold uppercase">
+                                        <span>Under Voice</span>
+                                        <span className="font-mono text-indigo-300">{Math.round(config.music.duckLevel * 100)}%</span>
+                                    </div>
+                                    <input 
+                                        type="range" min="0" max="1" step="0.05"
+                                        className="w-full accent-indigo-500 cursor-pointer"
+                                        value={config.music.duckLevel}
+                                        onChange={(e) => handleMusicChange('duckLevel', parseFloat(e.target.value))}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-[9px] text-slate-500 font-bold uppercase block">Fade In (s)</span>
+                                    <input 
+                                        type="number" min="0" max="30" step="0.5"
+                                        className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none"
+                                        value={config.music.fadeIn}
+                                        onChange={(e) => handleMusicChange('fadeIn', Math.max(0, parseFloat(e.target.value) || 0))}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-[9px] text-slate-500 font-bold uppercase block">Fade Out (s)</span>
+                                    <input 
+                                        type="number" min="0" max="30" step="0.5"
+                                        className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none"
+                                        value={config.music.fadeOut}
+                                        onChange={(e) => handleMusicChange('fadeOut', Math.max(0, parseFloat(e.target.value) || 0))}
+                                    />
+                                </div>
+                            </div>
+                            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                                <input 
+                                    type="checkbox"
+                                    className="accent-indigo-500"
+                                    checked={config.music.loop}
+                                    onChange={(e) => handleMusicChange('loop', e.target.checked)}
+                                />
+                                Loop track to fill the video
+                            </label>
+                        </div>
+                    ) : (
+                        <button 
+                            onClick={() => musicInputRef.current?.click()}
+                            className="w-full py-3 border border-dashed border-white/10 rounded-lg text-slate-500 text-xs hover:text-indigo-400 hover:border-indigo-500/30 transition-colors flex items-center justify-center gap-2"
+                        >
+                            <Music size={14} /> Upload Music Track (Optional)
+                        </button>
+                    )}
+                </div>
+
+                {/* Audio Processing Panel */}
+                <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-5 space-y-4">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                        <SlidersHorizontal size={14} /> Audio Processing
+                    </label>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                                <input 
+                                    type="checkbox"
+                                    className="accent-indigo-500"
+                                    checked={config.audioProcessing.trimSilence}
+                                    onChange={(e) => handleProcessingChange('trimSilence', e.target.checked)}
+                                />
+                                Trim silence
+                            </label>
+                            <div className="space-y-1">
+                                <span className="text-[9px] text-slate-500 font-bold uppercase block">Padding (ms)</span>
+                                <input 
+                                    type="number" min="0" max="2000" step="50"
+                                    disabled={!config.audioProcessing.trimSilence}
+                                    className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none disabled:opacity-40"
+                                    value={config.audioProcessing.paddingMs}
+                                    onChange={(e) => handleProcessingChange('paddingMs', Math.max(0, parseInt(e.target.value) || 0))}
+                                />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                                <input 
+                                    type="checkbox"
+                                    className="accent-indigo-500"
+                                    checked={config.audioProcessing.normalize}
+                                    onChange={(e) => handleProcessingChange('normalize', e.target.checked)}
+                                />
+                                Normalize loudness
+                            </label>
+                            <div className="space-y-1">
+                                <span className="text-[9px] text-slate-500 font-bold uppercase block">Target (LUFS)</span>
+                                <input 
+                                    type="number" min="-30" max="-6" step="1"
+                                    disabled={!config.audioProcessing.normalize}
+                                    className="w-full bg-white/5 text-xs py-1.5 px-2 rounded-lg border border-white/5 focus:border-indigo-500/30 outline-none disabled:opacity-40"
+                                    value={config.audioProcessing.targetLufs}
+                                    onChange={(e) => handleProcessingChange('targetLufs', Math.min(-6, Math.max(-30, parseFloat(e.target.value) || -16)))}
+                                />
+                            </div>
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                        <input 
+                            type="checkbox"
+                            className="accent-indigo-500"
+                            checked={config.audioProcessing.limiter}
+                            onChange={(e) => handleProcessingChange('limiter', e.target.checked)}
+                        />
+                        Limiter on the exported mix
+                    </label>
+                    <p className="text-[11px] text-slate-600">
+                        Trimming and normalization apply to narration generated from now on.
+                    </p>
+                </div>
             </div>
 
             {/* Right Column: Settings Dashboard */}
@@ -219,6 +514,58 @@ const Configuration: React.FC<Props> = ({ config, onChange, onStart, isProcessin
                     </div>
                 </div>
 
+                {/* Voice Direction */}
+                <div className="bg-[#0B0F15] rounded-2xl p-5 border border-white/5 space-y-4">
+                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                        <Mic size={12} /> Voice Direction
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                            <span className="text-[10px] text-slate-500">Pace</span>
+                            <select
+                                className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500/50 cursor-pointer"
+                                value={config.voiceDirection.pace || ''}
+                                onChange={(e) => handleDirectionChange('pace', e.target.value)}
+                            >
+                                <option value="" className="bg-slate-900">Genre default ({nicheDirection.pace})</option>
+                                {PACE_OPTIONS.map(p => <option key={p} value={p} className="bg-slate-900">{p.charAt(0).toUpperCase() + p.slice(1)}</option>)}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <span className="text-[10px] text-slate-500">Pauses</span>
+                            <select
+                                className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500/50 cursor-pointer"
+                                value={config.voiceDirection.pauses || ''}
+                                onChange={(e) => handleDirectionChange('pauses', e.target.value)}
+                            >
+                                <option value="" className="bg-slate-900">Genre default ({nicheDirection.pauses})</option>
+                                {PAUSE_OPTIONS.map(p => <option key={p} value={p} className="bg-slate-900">{p.charAt(0).toUpperCase() + p.slice(1)}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="space-y-1.5">
+                        <span className="text-[10px] text-slate-500">Tone</span>
+                        <input
+                            className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500/50 placeholder:text-slate-600"
+                            value={config.voiceDirection.tone || ''}
+                            onChange={(e) => handleDirectionChange('tone', e.target.value)}
+                            placeholder={nicheDirection.tone ? `Genre default: ${nicheDirection.tone}` : 'Neutral'}
+                        />
+                        <div className="flex flex-wrap gap-1.5">
+                            {VOICE_TONE_SUGGESTIONS.map(tone => (
+                                <button
+                                    key={tone}
+                                    onClick={() => handleDirectionChange('tone', config.voiceDirection.tone === tone ? '' : tone)}
+                                    className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${config.voiceDirection.tone === tone ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-200' : 'border-white/10 text-slate-500 hover:text-slate-300'}`}
+                                >
+                                    {tone}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-slate-600">Scenes can override this from the storyboard.</p>
+                </div>
+
                 {/* 3. Duration & Tech Specs */}
                 <div className="bg-[#0B0F15] rounded-2xl p-5 border border-white/5 space-y-6">
                      <div className="space-y-2">
@@ -244,6 +591,31 @@ const Configuration: React.FC<Props> = ({ config, onChange, onStart, isProcessin
                             <span>1m</span>
                             <span>3h</span>
                         </div>
+
+                        <div className="flex items-center justify-between text-[10px] text-slate-500 pt-1">
+                            <span>Script narrates ~{formatRuntime(pacing.scriptSeconds)}</span>
+                            <span>~{pacing.sceneCount} scenes</span>
+                        </div>
+                        {pacing.fit !== 'ok' && wordCount > 0 && (
+                            <div className="flex items-start gap-2 text-[10px] text-amber-300/90 bg-amber-500/5 border border-amber-500/10 rounded-lg p-2">
+                                <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                                <span>
+                                    {pacing.fit === 'short'
+                                        ? `Too short for the target: about ${pacing.targetWords} words are needed, the script has ${wordCount}.`
+                                        : `Too long for the target: about ${pacing.targetWords} words fit, the script has ${wordCount}.`}
+                                    {!config.fitScriptToDuration && ' The video will follow the script length.'}
+                                </span>
+                            </div>
+                        )}
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input 
+                                type="checkbox"
+                                className="accent-indigo-500"
+                                checked={config.fitScriptToDuration}
+                                onChange={(e) => handleChange('fitScriptToDuration', e.target.checked)}
+                            />
+                            Expand or condense the script to fit the target
+                        </label>
                      </div>
 
                      <div className="grid grid-cols-3 gap-2 pt-2 border-t border-white/5">
@@ -278,6 +650,22 @@ const Configuration: React.FC<Props> = ({ config, onChange, onStart, isProcessin
                             </select>
                         </div>
                      </div>
+
+                     {config.transitionType !== TransitionType.None && (
+                        <div className="flex items-center gap-3">
+                            <span className="text-[9px] text-slate-500 font-bold uppercase shrink-0">Overlap</span>
+                            <input 
+                                type="range" 
+                                min="0.2" 
+                                max="3" 
+                                step="0.1"
+                                className="flex-1 accent-indigo-500 cursor-pointer"
+                                value={config.transitionDuration}
+                                onChange={(e) => handleChange('transitionDuration', parseFloat(e.target.value))}
+                            />
+                            <span className="text-xs font-mono font-bold text-indigo-300 w-10 text-right">{config.transitionDuration.toFixed(1)}s</span>
+                        </div>
+                     )}
                 </div>
 
                 {/* 4. Action Button */}
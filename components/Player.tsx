@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { Scene } from '../types';
+import { Scene, TransitionType } from '../types';
+import { getFrameLayers, drawKenBurns, drawTransition } from '../services/transitions';
+import { stripSpeechMarkup } from '../services/speechMarkup';
 import { Play, Pause, SkipBack, SkipForward, Download, X, Clock } from 'lucide-react';
 
 interface Props {
@@ -8,15 +10,24 @@ interface Props {
   onClose: () => void;
   onExport: () => void;
   onUpdateScene?: (scene: Scene) => void;
+  transitionType: TransitionType;
+  transitionDuration: number;
 }
 
-const Player: React.FC<Props> = ({ scenes, initialSceneIndex = 0, onClose, onExport, onUpdateScene }) => {
+// Preview canvas resolution (matches the aspect-video frame)
+const PREVIEW_WIDTH = 1280;
+const PREVIEW_HEIGHT = 720;
+
+const Player: React.FC<Props> = ({ scenes, initialSceneIndex = 0, onClose, onExport, onUpdateScene, transitionType, transitionDuration }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentSceneIndex, setCurrentSceneIndex] = useState(initialSceneIndex);
   const [sceneProgress, setSceneProgress] = useState(0); // Progress of current scene (0-100)
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageCacheRef = useRef(new Map<string, HTMLImageElement>());
+  const [imagesLoaded, setImagesLoaded] = useState(0);
 
   // Pre-calculate timeline data
   const timeline = useMemo(() => {
@@ -41,6 +52,49 @@ const Player: React.FC<Props> = ({ scenes, initialSceneIndex = 0, onClose, onExp
 
   const globalTime = getGlobalTime();
 
+  // 0. Preload scene images for canvas rendering
+  useEffect(() => {
+    const cache = imageCacheRef.current;
+    scenes.forEach(s => {
+      if (!s.imageUrl || cache.has(s.imageUrl)) return;
+      const img = new Image();
+      img.onload = () => setImagesLoaded(n => n + 1);
+      img.src = s.imageUrl;
+      cache.set(s.imageUrl, img);
+    });
+  }, [scenes]);
+
+  // 0.5 Render Visual Layer (same transition code path as the exporter)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d', { alpha: false });
+    if (!canvas || !ctx) return;
+
+    const { width, height } = canvas;
+    const drawScene = (index: number) => {
+      const scene = timeline[index];
+      const img = scene?.imageUrl ? imageCacheRef.current.get(scene.imageUrl) : undefined;
+      if (img && img.complete && img.naturalWidth > 0) {
+        drawKenBurns(ctx, img, width, height, (globalTime - scene.start) / scene.duration);
+      } else {
+        ctx.fillStyle = 'black';
+        ctx.fillRect(0, 0, width, height);
+      }
+    };
+
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+    if (timeline.length === 0) return;
+
+    const layers = getFrameLayers(timeline, globalTime, transitionType, transitionDuration);
+    if (layers.nextIndex !== null) {
+      const nextIndex = layers.nextIndex;
+      drawTransition(ctx, width, height, transitionType, layers.progress, () => drawScene(layers.index), () => drawScene(nextIndex));
+    } else {
+      drawScene(layers.index);
+    }
+  }, [globalTime, timeline, imagesLoaded, transitionType, transitionDuration]);
+
   // 1. Initialize Audio Instance (Run Once)
   useEffect(() => {
     const audio = new Audio();
@@ -229,20 +283,20 @@ const Player: React.FC<Props> = ({ scenes, initialSceneIndex = 0, onClose, onExp
 
       <div ref={containerRef} className="relative w-full max-w-5xl aspect-video bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-800">
         {/* Visual Layer */}
-        {currentSceneData?.imageUrl ? (
-          <img 
-            src={currentSceneData.imageUrl} 
-            className={`w-full h-full object-cover transition-all duration-[10000ms] ease-linear ${isPlaying ? 'scale-110' : 'scale-100'}`}
-            alt="Scene"
-          />
-        ) : (
-           <div className="w-full h-full flex items-center justify-center text-slate-500">No Image</div>
+        <canvas 
+          ref={canvasRef}
+          width={PREVIEW_WIDTH}
+          height={PREVIEW_HEIGHT}
+          className="w-full h-full"
+        />
+        {!currentSceneData?.imageUrl && (
+           <div className="absolute inset-0 flex items-center justify-center text-slate-500">No Image</div>
         )}
 
         {/* Subtitles Overlay */}
         <div className="absolute bottom-16 left-0 right-0 text-center px-8">
            <span className="bg-black/60 text-white text-lg md:text-xl px-4 py-2 rounded-lg box-decoration-clone leading-[2.5rem] backdrop-blur-sm">
-             {currentSceneData?.scriptText}
+             {currentSceneData && stripSpeechMarkup(currentSceneData.scriptText)}
            </span>
         </div>
         
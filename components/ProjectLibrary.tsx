@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { listProjects, duplicateProject, deleteProject, ProjectSummary } from '../services/projectStore';
+import { FolderOpen, Copy, Trash2, Plus, Loader2, Image as ImageIcon, Library } from 'lucide-react';
+
+interface Props {
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  onBack: () => void;
+}
+
+const formatUpdated = (timestamp: number) => {
+  const diffMin = Math.round((Date.now() - timestamp) / 60000);
+  if (diffMin < 1) return 'Just now';
+  if (diffMin < 60) return `${diffMin}m ago`;
+  if (diffMin < 60 * 24) return `${Math.round(diffMin / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const ProjectLibrary: React.FC<Props> = ({ currentProjectId, onOpen, onNew, onDeleted, onBack }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error("Failed to list projects", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDuplicate = async (id: string) => {
+    setBusyId(id);
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (e: any) {
+      console.error("Duplicate failed", e);
+      alert(e.message || "Failed to duplicate project.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    setBusyId(project.id);
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+      await refresh();
+    } catch (e: any) {
+      console.error("Delete failed", e);
+      alert(e.message || "Failed to delete project.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 max-w-7xl mx-auto animate-fade-in h-full overflow-y-auto">
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between sticky top-0 bg-[#0f172a] z-10 py-4 border-b border-slate-800/50">
+         <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-indigo-400 to-cyan-400 bg-clip-text text-transparent mb-2 flex items-center gap-3">
+                <Library className="text-indigo-400" /> Recent Projects
+            </h1>
+            <p className="text-slate-400">Every production is saved automatically in this browser.</p>
+         </div>
+         <div className="flex items-center gap-3">
+            <button
+                onClick={onNew}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg transition-colors shadow-lg shadow-indigo-500/20"
+            >
+                <Plus size={16} /> New Project
+            </button>
+            <button
+                onClick={onBack}
+                className="text-slate-400 hover:text-white px-4 py-2 rounded-lg hover:bg-slate-800 transition-colors border border-transparent hover:border-slate-700"
+            >
+                Back to Studio
+            </button>
+         </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 flex items-center justify-center text-slate-500">
+            <Loader2 className="animate-spin" size={24} />
+        </div>
+      ) : projects.length === 0 ? (
+        <div className="h-64 flex flex-col items-center justify-center text-slate-600 border-2 border-dashed border-slate-800 rounded-xl bg-slate-900/50">
+            <FolderOpen size={40} className="mb-3 text-slate-500" />
+            <p className="text-lg font-medium text-slate-400">No saved projects yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {projects.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            return (
+              <div
+                key={project.id}
+                className={`bg-slate-900 rounded-xl overflow-hidden border shadow-lg group transition-colors ${isCurrent ? 'border-indigo-500/50' : 'border-slate-800 hover:border-slate-700'}`}
+              >
+                <div className="aspect-video bg-slate-950 relative cursor-pointer" onClick={() => onOpen(project.id)}>
+                  {project.thumbnail ? (
+                    <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-slate-700">
+                      <ImageIcon size={32} />
+                    </div>
+                  )}
+                  {isCurrent && (
+                    <div className="absolute top-3 left-3 bg-indigo-500 text-white text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider">
+                      Open
+                    </div>
+                  )}
+                </div>
+
+                <div className="p-4">
+                  <h3 className="text-sm font-bold text-white truncate" title={project.name}>{project.name}</h3>
+                  <div className="flex items-center justify-between mt-1 text-[10px] text-slate-500 font-medium uppercase tracking-wider">
+                    <span>{project.sceneCount} Scenes</span>
+                    <span>{formatUpdated(project.updatedAt)}</span>
+                  </div>
+
+                  <div className="flex items-center gap-2 mt-4">
+                    <button
+                      onClick={() => onOpen(project.id)}
+                      className="flex-1 py-2 bg-white/5 hover:bg-white/10 text-slate-200 text-xs font-bold rounded-lg transition-colors flex items-center justify-center gap-2"
+                    >
+                      <FolderOpen size={14} /> Resume
+                    </button>
+                    <button
+                      onClick={() => handleDuplicate(project.id)}
+                      disabled={busyId === project.id}
+                      className="p-2 text-slate-400 hover:text-white hover:bg-white/5 rounded-lg transition-colors disabled:opacity-50"
+                      title="Duplicate"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(project)}
+                      disabled={busyId === project.id}
+                      className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { PronunciationEntry } from '../types';
+import { Plus, Trash2, SpellCheck } from 'lucide-react';
+
+interface Props {
+  entries: PronunciationEntry[];
+  onChange: (entries: PronunciationEntry[]) => void;
+}
+
+const PronunciationDictionary: React.FC<Props> = ({ entries, onChange }) => {
+  const updateEntry = (index: number, changes: Partial<PronunciationEntry>) => {
+    onChange(entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  return (
+    <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <SpellCheck size={14} /> Pronunciation
+        </label>
+        <button
+          onClick={() => onChange([...entries, { term: '', say: '' }])}
+          className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-indigo-300 hover:text-white px-2 py-1 rounded-md hover:bg-white/5 transition-colors"
+        >
+          <Plus size={12} /> Add
+        </button>
+      </div>
+
+      <p className="text-[11px] text-slate-600">
+        Terms listed here are respelled before every narration is voiced; captions keep the original spelling.
+        In the script itself you can write <code className="text-slate-400">[pause 1.5s]</code>, <code className="text-slate-400">*emphasis*</code> or <code className="text-slate-400">{'{word|phonetic}'}</code>.
+      </p>
+
+      {entries.length > 0 && (
+        <div className="space-y-2">
+          {entries.map((entry, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                className="flex-1 min-w-0 bg-black/20 border border-white/5 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500/30 placeholder:text-slate-600"
+                value={entry.term}
+                onChange={(e) => updateEntry(i, { term: e.target.value })}
+                placeholder="Term (e.g. Nguyen)"
+              />
+              <span className="text-slate-600 text-xs">→</span>
+              <input
+                className="flex-1 min-w-0 bg-black/20 border border-white/5 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500/30 placeholder:text-slate-600"
+                value={entry.say}
+                onChange={(e) => updateEntry(i, { say: e.target.value })}
+                placeholder="Say as (e.g. win)"
+              />
+              <button
+                onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove term"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationDictionary;
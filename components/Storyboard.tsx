@@ -1,24 +1,104 @@
-import React, { useState } from 'react';
-import { Scene, GenerationState, ExportFormat } from '../types';
-import { Play, Image as ImageIcon, RefreshCw, Clock, CheckCircle2, Download, Loader2, AlertTriangle, Wand2, Mic, XCircle, ChevronDown, Edit2, PlayCircle } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { Scene, GenerationState, ExportFormat, Character, VoiceDirection } from '../types';
+import { PACE_OPTIONS, PAUSE_OPTIONS } from '../constants';
+import { Play, Image as ImageIcon, RefreshCw, Clock, CheckCircle2, Download, Loader2, AlertTriangle, Wand2, Mic, XCircle, ChevronDown, Edit2, PlayCircle, Pause, Square, Scissors, Merge, Plus, Trash2, GripVertical, Check, Layers, Sparkles } from 'lucide-react';
+import { isSceneComplete } from '../services/generationPipeline';
+import { getProjectedRuntime, getDurationFit, formatRuntime } from '../services/pacing';
+import { hasVoiceDirection } from '../services/voiceDirection';
+import { getImageTakes, getAudioTakes, selectImageTake, selectAudioTake } from '../services/sceneTakes';
+import { editSceneText, splitScene, mergeWithNext, insertScene, deleteScene, moveScene } from '../services/sceneEditing';
 
 interface Props {
   scenes: Scene[];
   generationState: GenerationState;
-  onRegenerateImage: (scene: Scene) => void;
+  targetDurationMinutes: number;
+  characters: Character[];
+  hasSceneJobs?: boolean; // A per-scene regenerate/edit is still running
+  onRegenerateImage: (scene: Scene, variantCount?: number) => void;
   onRegenerateAudio: (scene: Scene) => void;
+  onRefinePrompt?: (scene: Scene, instruction: string) => Promise<void>;
+  onEditImage?: (scene: Scene, instruction: string) => void;
   onUpdateScene?: (scene: Scene) => void;
+  onScenesChange?: (scenes: Scene[]) => void;
+  onGenerateMissing: () => void;
+  onPauseGeneration: () => void;
+  onResumeGeneration: () => void;
+  onCancelGeneration: () => void;
   onPreview: (startIndex?: number) => void;
   onExport: (format: ExportFormat) => void;
 }
 
-const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImage, onRegenerateAudio, onUpdateScene, onPreview, onExport }) => {
+const Storyboard: React.FC<Props> = ({ scenes, generationState, targetDurationMinutes, characters, hasSceneJobs, onRegenerateImage, onRegenerateAudio, onRefinePrompt, onEditImage, onUpdateScene, onScenesChange, onGenerateMissing, onPauseGeneration, onResumeGeneration, onCancelGeneration, onPreview, onExport }) => {
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [editingDurationId, setEditingDurationId] = useState<string | null>(null);
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ scriptText: string; visualPrompt: string; voiceDirection: VoiceDirection }>({ scriptText: '', visualPrompt: '', voiceDirection: {} });
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [variantCount, setVariantCount] = useState(3);
+  const [refineDrafts, setRefineDrafts] = useState<Record<string, string>>({});
+  const [refiningId, setRefiningId] = useState<string | null>(null);
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [imageInstruction, setImageInstruction] = useState('');
+  const scriptInputRef = useRef<HTMLTextAreaElement>(null);
   
   const readyCount = scenes.filter(s => s.status === 'ready').length;
   const progressPercent = scenes.length > 0 ? Math.round((readyCount / scenes.length) * 100) : 0;
   const allReady = readyCount === scenes.length && scenes.length > 0;
+  const isGenerating = generationState.status === 'generating_assets' || generationState.status === 'paused';
+  const missingCount = scenes.filter(s => !isSceneComplete(s)).length;
+  const projectedRuntime = getProjectedRuntime(scenes);
+  const runtimeFit = getDurationFit(projectedRuntime, targetDurationMinutes * 60);
+  // Generation results land on the scene they were started for, so structural edits wait
+  // until the pipeline and any per-scene jobs have finished
+  const canEdit = !!onScenesChange && !isGenerating && !hasSceneJobs && generationState.status !== 'analyzing';
+
+  const startEditing = (scene: Scene) => {
+    setEditingTextId(scene.id);
+    setDraft({ scriptText: scene.scriptText, visualPrompt: scene.visualPrompt, voiceDirection: scene.voiceDirection || {} });
+  };
+
+  const saveEditing = (scene: Scene) => {
+    onScenesChange?.(scenes.map(s => s.id === scene.id ? editSceneText(s, draft) : s));
+    setEditingTextId(null);
+  };
+
+  const splitAtCursor = (scene: Scene) => {
+    const offset = scriptInputRef.current?.selectionStart ?? draft.scriptText.length;
+    const edited = scenes.map(s => s.id === scene.id ? editSceneText(s, draft) : s);
+    onScenesChange?.(splitScene(edited, scene.id, offset));
+    setEditingTextId(null);
+  };
+
+  const handleRefine = async (scene: Scene) => {
+    const instruction = refineDrafts[scene.id]?.trim();
+    if (!instruction || !onRefinePrompt) return;
+    setRefiningId(scene.id);
+    try {
+      await onRefinePrompt(scene, instruction);
+      setRefineDrafts(prev => ({ ...prev, [scene.id]: '' }));
+    } finally {
+      setRefiningId(null);
+    }
+  };
+
+  const submitImageEdit = (scene: Scene) => {
+    if (!imageInstruction.trim() || !onEditImage) return;
+    onEditImage(scene, imageInstruction.trim());
+    setEditingImageId(null);
+    setImageInstruction('');
+  };
+
+  const handleDelete = (scene: Scene, index: number) => {
+    if (scene.scriptText.trim() && !window.confirm(`Delete scene ${index + 1}?`)) return;
+    onScenesChange?.(deleteScene(scenes, scene.id));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) onScenesChange?.(moveScene(scenes, dragIndex, index));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
 
   const getStatusBadge = (status: Scene['status']) => {
     switch (status) {
@@ -59,11 +139,20 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
            <div className="flex items-center gap-3">
              <h2 className="text-xl font-bold text-white tracking-tight">Timeline</h2>
              <span className="text-[10px] font-bold text-slate-400 bg-white/5 px-2 py-0.5 rounded border border-white/5 uppercase tracking-wide">{scenes.length} Scenes</span>
+             {scenes.length > 0 && (
+               <span
+                 className={`text-[10px] font-bold font-mono px-2 py-0.5 rounded border ${runtimeFit === 'ok' ? 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20' : 'text-amber-300 bg-amber-500/10 border-amber-500/20'}`}
+                 title={runtimeFit === 'ok' ? 'Projected runtime is on target' : `Projected runtime is too ${runtimeFit} for the target`}
+               >
+                 {formatRuntime(projectedRuntime)} / {formatRuntime(targetDurationMinutes * 60)}
+               </span>
+             )}
            </div>
            
            <div className="flex items-center gap-3 text-xs text-slate-400 mt-2 font-medium">
              {generationState.status === 'generating_assets' && <Loader2 size={12} className="animate-spin text-indigo-400" />}
-             <span className={generationState.status === 'generating_assets' ? 'text-indigo-300' : ''}>{generationState.currentStep}</span>
+             {generationState.status === 'paused' && <Pause size={12} className="text-amber-400" />}
+             <span className={generationState.status === 'generating_assets' ? 'text-indigo-300' : generationState.status === 'paused' ? 'text-amber-300' : ''}>{generationState.currentStep}</span>
              
              {scenes.length > 0 && (
                 <div className="w-24 h-1 bg-slate-800 rounded-full overflow-hidden">
@@ -74,6 +163,40 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
         </div>
         
         <div className="flex items-center gap-3">
+          {isGenerating ? (
+            <div className="flex items-center gap-2">
+              {generationState.status === 'paused' ? (
+                <button
+                  onClick={onResumeGeneration}
+                  className="px-3 py-2 rounded-lg font-bold text-xs flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white transition-all active:scale-95"
+                >
+                  <Play size={14} fill="currentColor" /> <span className="hidden sm:inline">Resume</span>
+                </button>
+              ) : (
+                <button
+                  onClick={onPauseGeneration}
+                  className="px-3 py-2 rounded-lg font-bold text-xs flex items-center gap-2 bg-white/5 border border-white/10 hover:bg-white/10 text-slate-300 hover:text-white transition-all active:scale-95"
+                >
+                  <Pause size={14} /> <span className="hidden sm:inline">Pause</span>
+                </button>
+              )}
+              <button
+                onClick={onCancelGeneration}
+                className="px-3 py-2 rounded-lg font-bold text-xs flex items-center gap-2 bg-white/5 border border-white/10 hover:bg-red-500/10 hover:border-red-500/30 text-slate-300 hover:text-red-300 transition-all active:scale-95"
+              >
+                <Square size={12} fill="currentColor" /> <span className="hidden sm:inline">Cancel</span>
+              </button>
+            </div>
+          ) : missingCount > 0 && generationState.status !== 'analyzing' && (
+            <button
+              onClick={onGenerateMissing}
+              className="px-4 py-2 rounded-lg font-bold text-xs flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-500/20 transition-all active:scale-95"
+              title="Generate assets for scenes that are queued or failed"
+            >
+              <Wand2 size={14} /> <span className="hidden sm:inline">Generate Missing ({missingCount})</span>
+            </button>
+          )}
+
           <div className="relative" onClick={(e) => e.stopPropagation()}>
             <button
                 onClick={() => setShowExportMenu(!showExportMenu)}
@@ -95,6 +218,20 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
                     <button onClick={() => onExport(ExportFormat.Video4K)} className="w-full text-left px-4 py-3 text-xs font-medium text-slate-300 hover:bg-white/5 hover:text-white flex justify-between items-center transition-colors">
                         Video 4K <span className="text-[9px] bg-purple-500/20 text-purple-300 px-1.5 py-0.5 rounded border border-purple-500/20">UHD</span>
                     </button>
+                    <div className="border-t border-white/5"></div>
+                    <button onClick={() => onExport(ExportFormat.AudioWav)} className="w-full text-left px-4 py-3 text-xs font-medium text-slate-300 hover:bg-white/5 hover:text-white flex justify-between items-center transition-colors">
+                        Audio <span className="text-[9px] bg-emerald-500/20 text-emerald-300 px-1.5 py-0.5 rounded border border-emerald-500/20">WAV</span>
+                    </button>
+                    <button onClick={() => onExport(ExportFormat.AudioMp3)} className="w-full text-left px-4 py-3 text-xs font-medium text-slate-300 hover:bg-white/5 hover:text-white flex justify-between items-center transition-colors">
+                        Audio <span className="text-[9px] bg-emerald-500/20 text-emerald-300 px-1.5 py-0.5 rounded border border-emerald-500/20">MP3</span>
+                    </button>
+                    <div className="border-t border-white/5"></div>
+                    <button onClick={() => onExport(ExportFormat.SubtitlesSrt)} className="w-full text-left px-4 py-3 text-xs font-medium text-slate-300 hover:bg-white/5 hover:text-white flex justify-between items-center transition-colors">
+                        Subtitles <span className="text-[9px] bg-white/5 text-slate-400 px-1.5 py-0.5 rounded border border-white/10">SRT</span>
+                    </button>
+                    <button onClick={() => onExport(ExportFormat.SubtitlesVtt)} className="w-full text-left px-4 py-3 text-xs font-medium text-slate-300 hover:bg-white/5 hover:text-white flex justify-between items-center transition-colors">
+                        Subtitles <span className="text-[9px] bg-white/5 text-slate-400 px-1.5 py-0.5 rounded border border-white/10">VTT</span>
+                    </button>
                 </div>
             )}
           </div>
@@ -118,7 +255,12 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
         {scenes.map((scene, index) => (
           <div 
             key={scene.id} 
-            className={`rounded-xl overflow-hidden flex flex-col md:flex-row border backdrop-blur-md transition-all duration-500 ${getCardStyle(scene.status)}`}
+            draggable={canEdit && editingTextId !== scene.id}
+            onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragIndex(index); }}
+            onDragOver={(e) => { if (dragIndex !== null) { e.preventDefault(); setDropIndex(index); } }}
+            onDrop={(e) => { e.preventDefault(); handleDrop(index); }}
+            onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+            className={`rounded-xl overflow-hidden flex flex-col md:flex-row border backdrop-blur-md transition-all duration-500 ${getCardStyle(scene.status)} ${dragIndex === index ? 'opacity-40' : ''} ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-indigo-500/60' : ''}`}
           >
             
             {/* Visual Asset Thumbnail */}
@@ -147,6 +289,15 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
               
               {/* Overlay Actions */}
               <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {onEditImage && scene.imageUrl && scene.status !== 'generating_image' && (
+                    <button 
+                       onClick={(e) => { e.stopPropagation(); setEditingImageId(editingImageId === scene.id ? null : scene.id); setImageInstruction(''); }}
+                       className="p-1.5 bg-black/70 hover:bg-black rounded text-white backdrop-blur-md border border-white/10 transition-colors"
+                       title="Edit Image"
+                    >
+                      <Wand2 size={12} />
+                    </button>
+                  )}
                   <button 
                      onClick={(e) => { e.stopPropagation(); onRegenerateImage(scene); }}
                      className="p-1.5 bg-black/70 hover:bg-black rounded text-white backdrop-blur-md border border-white/10 transition-colors"
@@ -154,11 +305,54 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
                   >
                     <RefreshCw size={12} />
                   </button>
+                  <div className="flex items-center bg-black/70 rounded backdrop-blur-md border border-white/10" onClick={(e) => e.stopPropagation()}>
+                    <select
+                       value={variantCount}
+                       onChange={(e) => setVariantCount(parseInt(e.target.value))}
+                       className="bg-transparent text-[10px] font-bold text-white pl-1.5 outline-none cursor-pointer"
+                       title="Number of variants"
+                    >
+                      {[2, 3, 4].map(n => <option key={n} value={n} className="bg-slate-900">{n}</option>)}
+                    </select>
+                    <button 
+                       onClick={() => onRegenerateImage(scene, variantCount)}
+                       className="p-1.5 text-white hover:text-indigo-300 transition-colors"
+                       title={`Generate ${variantCount} variants`}
+                    >
+                      <Layers size={12} />
+                    </button>
+                  </div>
               </div>
               
-              <div className="absolute bottom-2 left-2 bg-black/70 backdrop-blur-md px-2 py-0.5 rounded text-[10px] font-bold text-white border border-white/10">
+              <div className="absolute bottom-2 left-2 bg-black/70 backdrop-blur-md px-2 py-0.5 rounded text-[10px] font-bold text-white border border-white/10 flex items-center gap-1">
+                {canEdit && <GripVertical size={10} className="text-slate-400 cursor-grab" />}
                 SCENE {index + 1}
               </div>
+
+              {editingImageId === scene.id && (
+                <form
+                  className="absolute inset-x-2 bottom-2 z-10 flex items-center gap-2 bg-black/80 backdrop-blur-md border border-white/10 rounded-lg px-2 py-1.5"
+                  onClick={(e) => e.stopPropagation()}
+                  onSubmit={(e) => { e.preventDefault(); submitImageEdit(scene); }}
+                >
+                  <Wand2 size={11} className="text-indigo-400 shrink-0" />
+                  <input
+                    autoFocus
+                    className="flex-1 min-w-0 bg-transparent text-[11px] text-white outline-none placeholder:text-slate-500"
+                    value={imageInstruction}
+                    onChange={(e) => setImageInstruction(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setEditingImageId(null); }}
+                    placeholder="Remove the car, make the sky red…"
+                  />
+                  <button type="submit" disabled={!imageInstruction.trim()} className="text-[10px] font-bold text-indigo-300 hover:text-white disabled:opacity-40 transition-colors">Apply</button>
+                </form>
+              )}
+
+              {scene.imageUrl && scene.imageStale && (
+                <div className="absolute top-2 left-2 bg-amber-500/20 backdrop-blur-md px-2 py-0.5 rounded text-[9px] font-bold text-amber-300 border border-amber-500/30 uppercase tracking-wider" title="The prompt changed since this image was generated">
+                  Outdated
+                </div>
+              )}
             </div>
 
             {/* Content Details */}
@@ -194,9 +388,175 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
                    </div>
                  </div>
                  
-                 <p className="text-slate-200 text-sm leading-relaxed font-medium line-clamp-2 md:line-clamp-3">
-                   "{scene.scriptText}"
-                 </p>
+                 {editingTextId === scene.id ? (
+                   <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+                     <textarea
+                       ref={scriptInputRef}
+                       autoFocus
+                       rows={3}
+                       className="w-full bg-black/30 border border-white/10 rounded-lg p-2 text-sm text-slate-200 leading-relaxed outline-none focus:border-indigo-500/50 resize-y"
+                       value={draft.scriptText}
+                       onChange={(e) => setDraft({ ...draft, scriptText: e.target.value })}
+                       placeholder="Narration"
+                     />
+                     <div>
+                       <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Visual Prompt</label>
+                       <textarea
+                         rows={2}
+                         className="w-full mt-1 bg-black/30 border border-white/10 rounded-lg p-2 text-xs text-slate-400 leading-relaxed outline-none focus:border-indigo-500/50 resize-y"
+                         value={draft.visualPrompt}
+                         onChange={(e) => setDraft({ ...draft, visualPrompt: e.target.value })}
+                         placeholder="What the image should show"
+                       />
+                     </div>
+                     <div>
+                       <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Voice Direction</label>
+                       <div className="mt-1 flex items-center gap-2">
+                         <select
+                           className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-300 outline-none focus:border-indigo-500/50 cursor-pointer"
+                           value={draft.voiceDirection.pace || ''}
+                           onChange={(e) => setDraft({ ...draft, voiceDirection: { ...draft.voiceDirection, pace: (e.target.value || undefined) as VoiceDirection['pace'] } })}
+                           title="Pace"
+                         >
+                           <option value="" className="bg-slate-900">Pace: project</option>
+                           {PACE_OPTIONS.map(p => <option key={p} value={p} className="bg-slate-900">{p}</option>)}
+                         </select>
+                         <input
+                           className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-300 outline-none focus:border-indigo-500/50 placeholder:text-slate-600"
+                           value={draft.voiceDirection.tone || ''}
+                           onChange={(e) => setDraft({ ...draft, voiceDirection: { ...draft.voiceDirection, tone: e.target.value || undefined } })}
+                           placeholder="Tone: project default (e.g. whispered, urgent)"
+                         />
+                         <select
+                           className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-300 outline-none focus:border-indigo-500/50 cursor-pointer"
+                           value={draft.voiceDirection.pauses || ''}
+                           onChange={(e) => setDraft({ ...draft, voiceDirection: { ...draft.voiceDirection, pauses: (e.target.value || undefined) as VoiceDirection['pauses'] } })}
+                           title="Pauses"
+                         >
+                           <option value="" className="bg-slate-900">Pauses: project</option>
+                           {PAUSE_OPTIONS.map(p => <option key={p} value={p} className="bg-slate-900">{p}</option>)}
+                         </select>
+                       </div>
+                     </div>
+                     <div className="flex items-center gap-2">
+                       <button onClick={() => saveEditing(scene)} className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold transition-colors">
+                         <Check size={10} /> Save
+                       </button>
+                       <button
+                         onClick={() => splitAtCursor(scene)}
+                         className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-white/5 border border-white/10 hover:bg-white/10 text-slate-300 text-[10px] font-bold transition-colors"
+                         title="Split the narration at the cursor into two scenes"
+                       >
+                         <Scissors size={10} /> Split at Cursor
+                       </button>
+                       <button onClick={() => setEditingTextId(null)} className="px-2.5 py-1 text-slate-500 hover:text-white text-[10px] font-bold transition-colors">
+                         Cancel
+                       </button>
+                     </div>
+                   </div>
+                 ) : (
+                   <>
+                     <p
+                       className={`text-slate-200 text-sm leading-relaxed font-medium line-clamp-2 md:line-clamp-3 ${canEdit ? 'cursor-text hover:text-white' : ''}`}
+                       onClick={(e) => { if (canEdit) { e.stopPropagation(); startEditing(scene); } }}
+                       title={canEdit ? 'Click to edit' : undefined}
+                     >
+                       {scene.dialogue ? (
+                         scene.dialogue.map((line, i) => (
+                           <span key={i} className="block">
+                             <span className="text-[10px] font-bold uppercase tracking-wider text-indigo-300 mr-1.5">
+                               {characters.find(c => c.id === line.speaker)?.name || 'Narrator'}
+                             </span>
+                             {line.text}
+                           </span>
+                         ))
+                       ) : scene.scriptText ? `"${scene.scriptText}"` : <span className="text-slate-600 italic">Empty scene, click to write narration</span>}
+                     </p>
+                     {scene.visualPrompt && (
+                       <p
+                         className={`mt-2 text-[11px] text-slate-500 leading-relaxed line-clamp-2 flex gap-1.5 ${canEdit ? 'cursor-text hover:text-slate-300' : ''}`}
+                         onClick={(e) => { if (canEdit) { e.stopPropagation(); startEditing(scene); } }}
+                         title={scene.visualPrompt}
+                       >
+                         <ImageIcon size={11} className="shrink-0 mt-0.5" /> {scene.visualPrompt}
+                       </p>
+                     )}
+                     {(canEdit || refiningId === scene.id) && onRefinePrompt && scene.visualPrompt && (
+                       <form
+                         className="mt-2 flex items-center gap-2 bg-black/20 border border-white/5 rounded-lg px-2 py-1 focus-within:border-indigo-500/30"
+                         onClick={(e) => e.stopPropagation()}
+                         onSubmit={(e) => { e.preventDefault(); handleRefine(scene); }}
+                       >
+                         {refiningId === scene.id ? <Loader2 size={11} className="animate-spin text-indigo-400 shrink-0" /> : <Sparkles size={11} className="text-indigo-400 shrink-0" />}
+                         <input
+                           className="flex-1 min-w-0 bg-transparent text-[11px] text-slate-300 outline-none placeholder:text-slate-600"
+                           value={refineDrafts[scene.id] || ''}
+                           onChange={(e) => setRefineDrafts({ ...refineDrafts, [scene.id]: e.target.value })}
+                           placeholder='Refine the shot: "make it night", "closer shot"…'
+                           disabled={refiningId !== null}
+                         />
+                         {refineDrafts[scene.id]?.trim() && refiningId !== scene.id && (
+                           <button type="submit" className="text-[10px] font-bold text-indigo-300 hover:text-white transition-colors">Refine</button>
+                         )}
+                       </form>
+                     )}
+                   </>
+                 )}
+
+                 {(characters.some(c => scene.characterIds?.includes(c.id)) || hasVoiceDirection(scene.voiceDirection)) && (
+                   <div className="flex flex-wrap gap-1.5 mt-2">
+                     {characters.filter(c => scene.characterIds?.includes(c.id)).map(c => (
+                       <span key={c.id} className="text-[9px] font-bold uppercase tracking-wider text-slate-400 bg-white/5 border border-white/5 px-1.5 py-0.5 rounded">
+                         {c.name}
+                       </span>
+                     ))}
+                     {hasVoiceDirection(scene.voiceDirection) && (
+                       <span className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-purple-300 bg-purple-500/10 border border-purple-500/20 px-1.5 py-0.5 rounded" title="This scene overrides the project voice direction">
+                         <Mic size={9} /> {[scene.voiceDirection?.pace, scene.voiceDirection?.tone, scene.voiceDirection?.pauses && `${scene.voiceDirection.pauses} pauses`].filter(Boolean).join(' · ')}
+                       </span>
+                     )}
+                   </div>
+                 )}
+
+                 {/* Takes */}
+                 {(getImageTakes(scene).length > 1 || getAudioTakes(scene).length > 1) && (
+                   <div className="mt-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+                     {getImageTakes(scene).length > 1 && (
+                       <div className="flex items-center gap-1.5 flex-wrap">
+                         <span className="text-[9px] font-bold text-slate-500 uppercase tracking-wider w-12">Images</span>
+                         {getImageTakes(scene).map((take, i) => (
+                           <button
+                             key={take.id}
+                             onClick={() => onUpdateScene?.(selectImageTake(scene, take.id))}
+                             className={`w-12 aspect-video rounded overflow-hidden border transition-all ${take.url === scene.imageUrl ? 'border-indigo-400 ring-1 ring-indigo-400/50' : 'border-white/10 opacity-60 hover:opacity-100'}`}
+                             title={take.edit ? `Take ${i + 1}: edited, "${take.edit}"` : `Take ${i + 1}: ${take.prompt}`}
+                           >
+                             <img src={take.url} alt={`Take ${i + 1}`} className="w-full h-full object-cover" />
+                           </button>
+                         ))}
+                       </div>
+                     )}
+                     {getAudioTakes(scene).length > 1 && (
+                       <div className="flex items-center gap-1.5 flex-wrap">
+                         <span className="text-[9px] font-bold text-slate-500 uppercase tracking-wider w-12">Voice</span>
+                         {getAudioTakes(scene).map((take, i) => (
+                           <div key={take.id} className={`flex items-center rounded border text-[10px] font-bold ${take.url === scene.audioUrl ? 'border-indigo-400/60 bg-indigo-500/10 text-indigo-200' : 'border-white/10 text-slate-400'}`}>
+                             <button onClick={() => { new Audio(take.url).play(); }} className="pl-1.5 pr-1 py-0.5 hover:text-emerald-400 transition-colors" title="Play take">
+                               <Play size={8} fill="currentColor" />
+                             </button>
+                             <button
+                               onClick={() => onUpdateScene?.(selectAudioTake(scene, take.id))}
+                               className="pr-1.5 py-0.5 hover:text-white transition-colors"
+                               title={[take.voice, take.duration ? `${take.duration.toFixed(1)}s` : ''].filter(Boolean).join(' · ') || 'Use this take'}
+                             >
+                               Take {i + 1}
+                             </button>
+                           </div>
+                         ))}
+                       </div>
+                     )}
+                   </div>
+                 )}
                </div>
 
                {/* Asset Controls */}
@@ -209,12 +569,17 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
                  ) : (
                     <div className="flex items-center gap-4">
                         {scene.audioUrl ? (
-                            <button 
-                                onClick={() => { new Audio(scene.audioUrl).play(); }} 
-                                className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 hover:text-emerald-400 transition-colors"
-                            >
-                                <Play size={10} fill="currentColor" /> Play Voice
-                            </button>
+                            <>
+                              <button 
+                                  onClick={() => { new Audio(scene.audioUrl).play(); }} 
+                                  className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 hover:text-emerald-400 transition-colors"
+                              >
+                                  <Play size={10} fill="currentColor" /> Play Voice
+                              </button>
+                              {scene.audioStale && (
+                                <span className="text-[9px] font-bold text-amber-300 uppercase tracking-wider" title="The narration changed since this voice-over was generated">Outdated</span>
+                              )}
+                            </>
                         ) : scene.status === 'generating_audio' ? (
                             <span className="text-[10px] text-slate-500 flex items-center gap-1"><Loader2 size={10} className="animate-spin" /> Synthesizing</span>
                         ) : (
@@ -224,10 +589,38 @@ const Storyboard: React.FC<Props> = ({ scenes, generationState, onRegenerateImag
                         )}
                     </div>
                  )}
+
+                 {canEdit && editingTextId !== scene.id && (
+                   <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                     <button onClick={() => startEditing(scene)} className="p-1.5 text-slate-500 hover:text-white rounded hover:bg-white/5 transition-colors" title="Edit text">
+                       <Edit2 size={12} />
+                     </button>
+                     {index < scenes.length - 1 && (
+                       <button onClick={() => onScenesChange?.(mergeWithNext(scenes, scene.id))} className="p-1.5 text-slate-500 hover:text-white rounded hover:bg-white/5 transition-colors" title="Merge with next scene">
+                         <Merge size={12} />
+                       </button>
+                     )}
+                     <button onClick={() => onScenesChange?.(insertScene(scenes, index + 1))} className="p-1.5 text-slate-500 hover:text-white rounded hover:bg-white/5 transition-colors" title="Insert scene after">
+                       <Plus size={12} />
+                     </button>
+                     <button onClick={() => handleDelete(scene, index)} className="p-1.5 text-slate-500 hover:text-red-400 rounded hover:bg-white/5 transition-colors" title="Delete scene">
+                       <Trash2 size={12} />
+                     </button>
+                   </div>
+                 )}
                </div>
             </div>
           </div>
         ))}
+
+        {canEdit && scenes.length > 0 && (
+          <button
+            onClick={() => onScenesChange?.(insertScene(scenes, scenes.length))}
+            className="w-full py-3 rounded-xl border border-dashed border-white/10 text-slate-500 hover:text-white hover:border-white/20 text-xs font-bold flex items-center justify-center gap-2 transition-colors"
+          >
+            <Plus size={14} /> Add Scene
+          </button>
+        )}
         
         {/* Empty State */}
         {scenes.length === 0 && (
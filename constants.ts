@@ -1,4 +1,4 @@
-import { Niche, VisualStyle, ImageAspect, VoiceProfile, SafetyMode, TransitionType } from './types';
+import { Niche, VisualStyle, ImageAspect, VoiceProfile, VoiceDirection, SpeechPace, PauseStyle, SafetyMode, TransitionType, CaptionPosition, CaptionStyle, CaptionMode, MusicSettings, AudioProcessingSettings, RequestKind, RateLimit, ProviderType, ProviderSettings } from './types';
 
 export const VOICE_PROFILES: VoiceProfile[] = [
   { name: 'Puck', gender: 'male', style: 'Playful, Clear' },
@@ -8,16 +8,98 @@ export const VOICE_PROFILES: VoiceProfile[] = [
   { name: 'Zephyr', gender: 'female', style: 'Friendly, Neutral' },
 ];
 
+// Narration delivery each niche starts from, so the voice matches the genre without tweaking
+export const NICHE_VOICE_DIRECTION: Record<Niche, Required<VoiceDirection>> = {
+  [Niche.Auto]: { pace: SpeechPace.Normal, tone: '', pauses: PauseStyle.Natural },
+  [Niche.War]: { pace: SpeechPace.Normal, tone: 'intense, grave and urgent', pauses: PauseStyle.Natural },
+  [Niche.Motivational]: { pace: SpeechPace.Normal, tone: 'energetic, confident and uplifting', pauses: PauseStyle.Tight },
+  [Niche.Meditation]: { pace: SpeechPace.Slow, tone: 'soft, calm and soothing', pauses: PauseStyle.Long },
+  [Niche.Kids]: { pace: SpeechPace.Normal, tone: 'playful, warm and friendly', pauses: PauseStyle.Natural },
+  [Niche.Horror]: { pace: SpeechPace.Slow, tone: 'hushed, tense and ominous', pauses: PauseStyle.Long },
+  [Niche.Love]: { pace: SpeechPace.Slow, tone: 'warm and tender', pauses: PauseStyle.Natural },
+  [Niche.History]: { pace: SpeechPace.Normal, tone: 'measured and authoritative', pauses: PauseStyle.Natural },
+  [Niche.Fantasy]: { pace: SpeechPace.Normal, tone: 'wondrous, like a storyteller', pauses: PauseStyle.Natural },
+  [Niche.Islamic]: { pace: SpeechPace.Slow, tone: 'reverent, gentle and calm', pauses: PauseStyle.Long },
+};
+
+export const VOICE_TONE_SUGGESTIONS = ['warm', 'whispered', 'urgent', 'calm', 'excited', 'somber'];
+
+// Speaker id for narration lines in scene dialogue
+export const NARRATOR_SPEAKER = 'narrator';
+// Pause between speakers when dialogue lines are stitched together
+export const DIALOGUE_GAP_MS = 250;
+
+// Average narration pace used for every runtime estimate
+export const NARRATION_WPM = 150;
+
+export const CAPTION_FONTS = ['Inter', 'Arial', 'Georgia', 'Impact', 'Courier New'];
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  enabled: false,
+  mode: CaptionMode.Sentence,
+  highlightColor: '#FACC15',
+  fontFamily: 'Inter',
+  fontSize: 48,
+  position: CaptionPosition.Bottom,
+  showBackground: true,
+  maxLines: 2,
+};
+
+export const DEFAULT_MUSIC_SETTINGS: MusicSettings = {
+  volume: 0.35,
+  duckLevel: 0.25,
+  fadeIn: 2,
+  fadeOut: 3,
+  loop: true,
+};
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  trimSilence: true,
+  paddingMs: 150,
+  normalize: true,
+  targetLufs: -16,
+  limiter: true,
+};
+
+// Per-model budgets for the shared request scheduler (free-tier friendly)
+export const DEFAULT_RATE_LIMITS: Record<RequestKind, RateLimit> = {
+  text: { concurrency: 2, requestsPerMinute: 15 },
+  image: { concurrency: 3, requestsPerMinute: 10 },
+  tts: { concurrency: 2, requestsPerMinute: 10 },
+};
+
+export const DEFAULT_PROVIDERS: Record<RequestKind, ProviderSettings> = {
+  text: { type: ProviderType.Gemini, model: 'gemini-2.5-flash' },
+  image: { type: ProviderType.Gemini, model: 'gemini-2.5-flash-image' },
+  tts: { type: ProviderType.Gemini, model: 'gemini-2.5-flash-preview-tts' },
+};
+
+// Starting point when a capability is switched to an OpenAI-compatible endpoint
+export const DEFAULT_OPENAI_PROVIDERS: Record<RequestKind, ProviderSettings> = {
+  text: { type: ProviderType.OpenAICompatible, model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  image: { type: ProviderType.OpenAICompatible, model: 'gpt-image-1', baseUrl: 'https://api.openai.com/v1' },
+  tts: { type: ProviderType.OpenAICompatible, model: 'gpt-4o-mini-tts', baseUrl: 'https://api.openai.com/v1', voice: 'alloy' },
+};
+
 export const DEFAULT_CONFIG = {
   scriptText: "In the heart of a dense, bioluminescent forest, a small robot named Unit 734 awakens. Moss covers its metallic joints, suggesting it has been asleep for centuries. It looks up to see giant mushrooms glowing with soft blue light. A digital chirp escapes its speaker, echoing through the silent woods.",
   characterConsistency: "",
+  characters: [],
   niche: Niche.Auto,
   targetDurationMinutes: 1,
+  fitScriptToDuration: false,
   voiceProfile: VOICE_PROFILES[0],
+  voiceDirection: {},
+  pronunciations: [],
   visualStyle: VisualStyle.Cinematic,
   imageAspect: ImageAspect.SixteenNine,
   safetyMode: SafetyMode.Normal,
   transitionType: TransitionType.Fade,
+  transitionDuration: 1,
+  captions: DEFAULT_CAPTION_STYLE,
+  backgroundMusic: null,
+  music: DEFAULT_MUSIC_SETTINGS,
+  audioProcessing: DEFAULT_AUDIO_PROCESSING,
   referenceImage: null,
 };
 
@@ -25,4 +107,9 @@ export const NICHE_OPTIONS = Object.values(Niche);
 export const STYLE_OPTIONS = Object.values(VisualStyle);
 export const ASPECT_OPTIONS = Object.values(ImageAspect);
 export const SAFETY_OPTIONS = Object.values(SafetyMode);
-export const TRANSITION_OPTIONS = Object.values(TransitionType);
\ No newline at end of file
+export const TRANSITION_OPTIONS = Object.values(TransitionType);
+export const CAPTION_POSITION_OPTIONS = Object.values(CaptionPosition);
+export const CAPTION_MODE_OPTIONS = Object.values(CaptionMode);
+export const PACE_OPTIONS = Object.values(SpeechPace);
+export const PAUSE_OPTIONS = Object.values(PauseStyle);
+export const PROVIDER_OPTIONS = Object.values(ProviderType);
\ No newline at end of file
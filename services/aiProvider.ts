@@ -0,0 +1,102 @@
+import { RequestKind, ProviderType, ProviderSettings, AISettings, ImageAspect, SafetyMode } from '../types';
+import { DEFAULT_PROVIDERS, DEFAULT_RATE_LIMITS } from '../constants';
+import { configureRateLimits } from './rateLimiter';
+import { geminiProvider } from './geminiProvider';
+import { openAICompatibleProvider } from './openaiProvider';
+import { mockProvider } from './mockProvider';
+
+const SETTINGS_KEY = 'vidgen:aiSettings';
+
+// MOCK_AI=true in .env.local routes every capability to the offline mock
+export const IS_MOCK_MODE = process.env.MOCK_AI === 'true';
+const MOCK_SETTINGS: ProviderSettings = { type: ProviderType.Mock, model: 'mock' };
+const MOCK_RATE_LIMIT = { concurrency: 4, requestsPerMinute: 600 };
+
+export interface TextRequest {
+  systemInstruction: string;
+  prompt: string;
+  images?: string[]; // Data URLs sent alongside the prompt
+  responseSchema?: object; // JSON Schema; the reply is expected to be JSON when set
+  safetyMode?: SafetyMode;
+}
+
+export interface CharacterReference {
+  name: string;
+  image: string; // Data URL portrait
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: ImageAspect;
+  referenceImage?: string | null; // Data URL to match style against
+  characterReferences?: CharacterReference[];
+}
+
+export interface ImageEditRequest {
+  image: string; // Data URL of the image to change
+  instruction: string; // e.g. "remove the car", "extend the sky"
+  aspectRatio: ImageAspect;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+  style?: string; // Delivery instruction (pace, tone, pauses); never read aloud
+}
+
+/**
+ * One vendor adapter. Prompt writing and response parsing live in geminiService;
+ * adapters only move requests over the wire and normalise the results.
+ */
+export interface AIProvider {
+  generateText: (request: TextRequest, settings: ProviderSettings) => Promise<string>;
+  generateImage: (request: ImageRequest, settings: ProviderSettings) => Promise<string>; // Data URL
+  editImage: (request: ImageEditRequest, settings: ProviderSettings) => Promise<string>; // Data URL
+  synthesizeSpeech: (request: SpeechRequest, settings: ProviderSettings) => Promise<Uint8Array>; // 24kHz 16-bit mono PCM
+}
+
+const PROVIDERS: Record<ProviderType, AIProvider> = {
+  [ProviderType.Gemini]: geminiProvider,
+  [ProviderType.OpenAICompatible]: openAICompatibleProvider,
+  [ProviderType.Mock]: mockProvider,
+};
+
+export const getAISettings = (): AISettings => {
+  const defaults: AISettings = { providers: DEFAULT_PROVIDERS, rateLimits: DEFAULT_RATE_LIMITS };
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!stored) return defaults;
+    return {
+      providers: { ...defaults.providers, ...stored.providers },
+      rateLimits: { ...defaults.rateLimits, ...stored.rateLimits },
+    };
+  } catch (e) {
+    console.warn("Ignoring unreadable AI settings", e);
+    return defaults;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  if (!IS_MOCK_MODE) configureRateLimits(settings.rateLimits);
+};
+
+// Stored budgets apply from the first request of the session; the mock has no quota to respect
+configureRateLimits(IS_MOCK_MODE
+  ? { text: MOCK_RATE_LIMIT, image: MOCK_RATE_LIMIT, tts: MOCK_RATE_LIMIT }
+  : getAISettings().rateLimits);
+
+export const getProvider = (kind: RequestKind): { provider: AIProvider; settings: ProviderSettings } => {
+  const settings = IS_MOCK_MODE ? MOCK_SETTINGS : getAISettings().providers[kind];
+  return { provider: PROVIDERS[settings.type], settings };
+};
+
+/**
+ * Whether a capability has enough configuration to attempt a request.
+ */
+export const isProviderReady = (kind: RequestKind): boolean => {
+  const { settings } = getProvider(kind);
+  if (settings.type === ProviderType.Mock) return true;
+  if (settings.type === ProviderType.Gemini) return !!(settings.apiKey || process.env.API_KEY);
+  return !!settings.baseUrl;
+};
@@ -0,0 +1,78 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+const MP3_KBPS = 192;
+const MP3_FRAME_SAMPLES = 1152; // Samples per MPEG-1 Layer III frame
+const MP3_FRAMES_PER_YIELD = 200; // Hand the thread back to the UI every ~5s of audio
+
+const toInt16 = (samples: Float32Array): Int16Array => {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return out;
+};
+
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/**
+ * Encodes a mixed buffer as 16-bit PCM WAV, interleaving all of its channels.
+ */
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => toInt16(buffer.getChannelData(c)));
+  const blockAlign = channels.length * 2;
+  const dataLength = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataLength));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (const channel of channels) {
+      view.setInt16(offset, channel[i], true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+/**
+ * Encodes a mixed buffer as a constant-bitrate MP3 (mono or stereo). Runs on the main
+ * thread in slices so progress can be shown.
+ */
+export const encodeMp3 = async (buffer: AudioBuffer, onProgress?: (fraction: number) => void): Promise<Blob> => {
+  const left = toInt16(buffer.getChannelData(0));
+  const right = buffer.numberOfChannels > 1 ? toInt16(buffer.getChannelData(1)) : undefined;
+  const encoder = new Mp3Encoder(right ? 2 : 1, buffer.sampleRate, MP3_KBPS);
+  const parts: Uint8Array[] = [];
+
+  for (let start = 0, frame = 0; start < left.length; start += MP3_FRAME_SAMPLES, frame++) {
+    const end = start + MP3_FRAME_SAMPLES;
+    const encoded = encoder.encodeBuffer(left.subarray(start, end), right?.subarray(start, end));
+    if (encoded.length > 0) parts.push(encoded);
+
+    if (frame % MP3_FRAMES_PER_YIELD === 0) {
+      if (onProgress) onProgress(start / left.length);
+      await new Promise(r => setTimeout(r, 0));
+    }
+  }
+
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail);
+  if (onProgress) onProgress(1);
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
@@ -0,0 +1,139 @@
+import { MusicSettings } from '../types';
+import { detectSpeechSegments } from './audioUtils';
+
+export interface SpeechClip {
+  start: number; // Timeline position of the clip (seconds)
+  buffer: AudioBuffer | null;
+}
+
+export interface TimeRegion {
+  start: number;
+  end: number;
+}
+
+// Ducking envelope timing (seconds)
+const DUCK_ATTACK = 0.15;
+const DUCK_RELEASE = 0.4;
+// Pauses shorter than this keep the bed ducked so it doesn't "pump" between sentences
+const DUCK_HOLD = 1.0;
+
+/**
+ * Builds the side-chain signal for ducking: voiced regions of every narration clip,
+ * placed on the timeline and merged across short pauses.
+ */
+export const getSpeechRegions = (clips: SpeechClip[]): TimeRegion[] => {
+  const regions = clips
+    .filter(c => c.buffer)
+    .flatMap(c => detectSpeechSegments(c.buffer!).map(seg => ({ start: c.start + seg.start, end: c.start + seg.end })))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeRegion[] = [];
+  regions.forEach(r => {
+    const last = merged[merged.length - 1];
+    if (last && r.start - last.end < DUCK_HOLD) last.end = Math.max(last.end, r.end);
+    else merged.push({ ...r });
+  });
+  return merged;
+};
+
+/**
+ * Fetches and decodes an uploaded music track (data URL or object URL).
+ */
+export const loadMusicBuffer = async (ctx: BaseAudioContext, url: string): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  const arrayBuffer = await response.arrayBuffer();
+  return ctx.decodeAudioData(arrayBuffer);
+};
+
+/**
+ * Schedules the background music bed on the context timeline: looped or trimmed to
+ * `totalDuration`, faded in/out, and ducked under the given speech regions.
+ */
+export const scheduleMusicBed = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  music: AudioBuffer,
+  speech: TimeRegion[],
+  startTime: number,
+  totalDuration: number,
+  settings: MusicSettings
+) => {
+  const source = ctx.createBufferSource();
+  source.buffer = music;
+  source.loop = settings.loop;
+
+  // Fade envelope and ducking live on separate nodes so their automation never collides
+  const fade = ctx.createGain();
+  const duck = ctx.createGain();
+  source.connect(duck).connect(fade).connect(destination);
+
+  const end = startTime + totalDuration;
+  const fadeIn = Math.min(settings.fadeIn, totalDuration / 2);
+  const fadeOut = Math.min(settings.fadeOut, totalDuration / 2);
+
+  fade.gain.setValueAtTime(fadeIn > 0 ? 0 : settings.volume, startTime);
+  if (fadeIn > 0) fade.gain.linearRampToValueAtTime(settings.volume, startTime + fadeIn);
+  fade.gain.setValueAtTime(settings.volume, end - fadeOut);
+  if (fadeOut > 0) fade.gain.linearRampToValueAtTime(0, end);
+
+  duck.gain.setValueAtTime(1, startTime);
+  speech.forEach(r => {
+    const downStart = Math.max(0, r.start - DUCK_ATTACK);
+    duck.gain.setValueAtTime(1, startTime + downStart);
+    duck.gain.linearRampToValueAtTime(settings.duckLevel, startTime + Math.max(downStart, r.start));
+    duck.gain.setValueAtTime(settings.duckLevel, startTime + r.end);
+    duck.gain.linearRampToValueAtTime(1, startTime + r.end + DUCK_RELEASE);
+  });
+
+  source.start(startTime);
+  source.stop(end);
+  return source;
+};
+
+/**
+ * Inserts a brick-wall-style limiter in front of `destination` and returns the node
+ * to connect sources to.
+ */
+export const createLimiter = (ctx: BaseAudioContext, destination: AudioNode): AudioNode => {
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.1;
+  limiter.connect(destination);
+  return limiter;
+};
+
+// Sample rate of the final export mix (Opus only supports 48kHz)
+export const MIX_SAMPLE_RATE = 48000;
+const MIX_CHANNELS = 2;
+
+/**
+ * Renders the full narration timeline (plus optional music bed) offline,
+ * as fast as the machine allows, into a single stereo AudioBuffer.
+ */
+export const mixTimelineAudio = async (
+  clips: SpeechClip[],
+  totalDuration: number,
+  music?: { buffer: AudioBuffer; settings: MusicSettings } | null,
+  limiter = false
+): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(totalDuration * MIX_SAMPLE_RATE));
+  const ctx = new OfflineAudioContext(MIX_CHANNELS, length, MIX_SAMPLE_RATE);
+  const output = limiter ? createLimiter(ctx, ctx.destination) : ctx.destination;
+
+  clips.forEach(clip => {
+    if (!clip.buffer) return;
+    const source = ctx.createBufferSource();
+    source.buffer = clip.buffer;
+    source.connect(output);
+    source.start(clip.start);
+  });
+
+  if (music) {
+    scheduleMusicBed(ctx, output, music.buffer, getSpeechRegions(clips), 0, totalDuration, music.settings);
+  }
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,155 @@
+import { AudioProcessingSettings } from '../types';
+
+const SILENCE_THRESHOLD_DB = -45; // Below this counts as silence when trimming
+const JOIN_FADE_MS = 5; // Long enough to hide a waveform discontinuity, too short to hear
+const PEAK_CEILING_DB = -1; // Normalization never pushes peaks above this
+const LOUDNESS_BLOCK_SECONDS = 0.4; // BS.1770 gating block
+const LOUDNESS_STEP_SECONDS = 0.1; // 75% block overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const pcmToFloat = (bytes: Uint8Array): Float32Array => {
+  const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768;
+  return samples;
+};
+
+export const floatToPcm = (samples: Float32Array): Uint8Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = Math.round(s < 0 ? s * 32768 : s * 32767);
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+/**
+ * Cuts leading and trailing silence, leaving `paddingMs` of room on either side.
+ */
+export const trimSilence = (samples: Float32Array, sampleRate: number, paddingMs: number): Float32Array => {
+  const threshold = dbToGain(SILENCE_THRESHOLD_DB);
+  let first = 0;
+  while (first < samples.length && Math.abs(samples[first]) < threshold) first++;
+  if (first === samples.length) return samples.subarray(0, 0);
+  let last = samples.length - 1;
+  while (last > first && Math.abs(samples[last]) < threshold) last--;
+
+  const padding = Math.round((paddingMs / 1000) * sampleRate);
+  return samples.slice(Math.max(0, first - padding), Math.min(samples.length, last + 1 + padding));
+};
+
+/**
+ * Short linear fades at both ends, so clips butted against each other or against
+ * silence don't click.
+ */
+export const applyEdgeFades = (samples: Float32Array, sampleRate: number, fadeMs = JOIN_FADE_MS): Float32Array => {
+  const out = samples.slice();
+  const length = Math.min(Math.round((fadeMs / 1000) * sampleRate), Math.floor(out.length / 2));
+  for (let i = 0; i < length; i++) {
+    const gain = i / length;
+    out[i] *= gain;
+    out[out.length - 1 - i] *= gain;
+  }
+  return out;
+};
+
+// Biquad in direct form I
+const biquad = (input: Float32Array, b0: number, b1: number, b2: number, a1: number, a2: number): Float32Array => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x0 = input[i];
+    const y0 = b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    out[i] = y0;
+    x2 = x1; x1 = x0;
+    y2 = y1; y1 = y0;
+  }
+  return out;
+};
+
+// ITU-R BS.1770 K-weighting (high shelf + high pass), with coefficients derived for any sample rate
+const kWeight = (samples: Float32Array, sampleRate: number): Float32Array => {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const Q1 = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q1 + K * K;
+  const shelved = biquad(
+    samples,
+    (Vh + Vb * K / Q1 + K * K) / a0,
+    2 * (K * K - Vh) / a0,
+    (Vh - Vb * K / Q1 + K * K) / a0,
+    2 * (K * K - 1) / a0,
+    (1 - K / Q1 + K * K) / a0
+  );
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  return biquad(shelved, 1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q2 + K * K) / a0);
+};
+
+/**
+ * Integrated loudness in LUFS (mono), gated as in BS.1770. Returns -Infinity for silence.
+ */
+export const measureLoudness = (samples: Float32Array, sampleRate: number): number => {
+  const weighted = kWeight(samples, sampleRate);
+  const blockSize = Math.round(LOUDNESS_BLOCK_SECONDS * sampleRate);
+  const step = Math.round(LOUDNESS_STEP_SECONDS * sampleRate);
+
+  // Clips shorter than one block are measured as a single block
+  const starts = weighted.length <= blockSize
+    ? [0]
+    : Array.from({ length: Math.floor((weighted.length - blockSize) / step) + 1 }, (_, i) => i * step);
+  const powers = starts.map(start => {
+    const end = Math.min(weighted.length, start + blockSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += weighted[i] * weighted[i];
+    return sum / Math.max(1, end - start);
+  });
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+  const aboveAbsolute = powers.filter(p => toLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(p => toLufs(p) > relativeGate);
+  return toLufs(mean(gated.length > 0 ? gated : aboveAbsolute));
+};
+
+/**
+ * Applies the gain that brings the clip to `targetLufs`, backing off if that would
+ * push peaks past the ceiling.
+ */
+export const normalizeLoudness = (samples: Float32Array, sampleRate: number, targetLufs: number): Float32Array => {
+  const loudness = measureLoudness(samples, sampleRate);
+  if (!isFinite(loudness)) return samples;
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const gain = Math.min(dbToGain(targetLufs - loudness), dbToGain(PEAK_CEILING_DB) / Math.max(peak, 1e-9));
+
+  const out = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = samples[i] * gain;
+  return out;
+};
+
+/**
+ * Cleans up one synthesized chunk before it is joined to the rest: trims its silence
+ * to the configured padding and fades its edges so the join doesn't click.
+ */
+export const prepareSpeechChunk = (bytes: Uint8Array, settings: AudioProcessingSettings, sampleRate = 24000): Uint8Array => {
+  let samples = pcmToFloat(bytes);
+  if (settings.trimSilence) samples = trimSilence(samples, sampleRate, settings.paddingMs);
+  return floatToPcm(applyEdgeFades(samples, sampleRate));
+};
+
+/**
+ * Final pass over a whole scene's narration.
+ */
+export const finalizeSpeech = (bytes: Uint8Array, settings: AudioProcessingSettings, sampleRate = 24000): Uint8Array =>
+  settings.normalize ? floatToPcm(normalizeLoudness(pcmToFloat(bytes), sampleRate, settings.targetLufs)) : bytes;
@@ -50,6 +50,28 @@ export function createWavUrlFromPcmBytes(bytes: Uint8Array, sampleRate = 24000):
   return URL.createObjectURL(blob);
 }
 
+/**
+ * Creates silent 16-bit mono PCM of the given length.
+ */
+export function createSilencePcm(seconds: number, sampleRate = 24000): Uint8Array {
+  return new Uint8Array(Math.round(seconds * sampleRate) * 2);
+}
+
+/**
+ * Joins 16-bit mono PCM chunks, optionally with a stretch of silence between them.
+ */
+export function concatPcmChunks(chunks: Uint8Array[], gapMs = 0, sampleRate = 24000): Uint8Array {
+  const gapBytes = Math.round((gapMs / 1000) * sampleRate) * 2;
+  const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0) + gapBytes * Math.max(0, chunks.length - 1);
+  const combined = new Uint8Array(totalLength); // Zero-filled, so the gaps are silent
+  let offset = 0;
+  chunks.forEach((chunk, i) => {
+    combined.set(chunk, offset);
+    offset += chunk.length + (i < chunks.length - 1 ? gapBytes : 0);
+  });
+  return combined;
+}
+
 /**
  * Converts raw PCM data (base64 string) to a WAV file Blob URL.
  */
@@ -63,3 +85,64 @@ function writeString(view: DataView, offset: number, string: string) {
     view.setUint8(offset + i, string.charCodeAt(i));
   }
 }
+
+/**
+ * Finds voiced regions in an AudioBuffer using short-window RMS energy.
+ * Silences shorter than `minSilence` seconds are treated as part of the surrounding speech.
+ */
+export function detectSpeechSegments(buffer: AudioBuffer, minSilence = 0.15): { start: number; end: number }[] {
+  const data = buffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * 0.01)); // 10ms windows
+  const frameCount = Math.floor(data.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const energies = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) sum += data[i] * data[i];
+    energies[f] = Math.sqrt(sum / frameSize);
+  }
+
+  // Threshold sits between the noise floor and the loud parts of speech
+  const sorted = Array.from(energies).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(frameCount * 0.1)];
+  const speechLevel = sorted[Math.floor(frameCount * 0.95)];
+  const threshold = Math.max(noiseFloor * 2, speechLevel * 0.1, 1e-4);
+
+  const frameSecs = frameSize / buffer.sampleRate;
+  const segments: { start: number; end: number }[] = [];
+  let segStart = -1;
+  let silentFrames = 0;
+  const maxSilentFrames = Math.round(minSilence / frameSecs);
+
+  for (let f = 0; f < frameCount; f++) {
+    if (energies[f] >= threshold) {
+      if (segStart === -1) segStart = f;
+      silentFrames = 0;
+    } else if (segStart !== -1) {
+      silentFrames++;
+      if (silentFrames >= maxSilentFrames) {
+        segments.push({ start: segStart * frameSecs, end: (f - silentFrames + 1) * frameSecs });
+        segStart = -1;
+        silentFrames = 0;
+      }
+    }
+  }
+  if (segStart !== -1) segments.push({ start: segStart * frameSecs, end: (frameCount - silentFrames) * frameSecs });
+
+  return segments;
+}
+
+/**
+ * Reads the playback duration of an audio URL via its metadata.
+ * Resolves undefined if it can't be determined within `timeoutMs`.
+ */
+export function measureAudioDuration(url: string, timeoutMs = 2000): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const tempAudio = new Audio(url);
+    tempAudio.onloadedmetadata = () => resolve(tempAudio.duration);
+    tempAudio.onerror = () => resolve(undefined);
+    // Timeout in case it hangs
+    setTimeout(() => resolve(undefined), timeoutMs);
+  });
+}
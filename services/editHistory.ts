@@ -0,0 +1,53 @@
+import { Scene, VideoConfig } from '../types';
+
+const MAX_ENTRIES = 100;
+// Edits to the same field within this window (typing, dragging a slider) become one undo step
+const COALESCE_MS = 1000;
+
+export interface HistorySnapshot {
+  config: VideoConfig;
+  scenes: Scene[];
+}
+
+export interface EditHistory {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+  lastKey?: string;
+  lastAt: number;
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [], lastAt: 0 };
+
+/**
+ * Records the state as it was before an edit. Snapshots keep the asset URLs they
+ * referenced, so undoing a regeneration brings back the earlier image or voice take;
+ * those URLs must not be revoked while they can still be restored.
+ */
+export const recordSnapshot = (history: EditHistory, snapshot: HistorySnapshot, key?: string): EditHistory => {
+  const now = Date.now();
+  if (key && key === history.lastKey && now - history.lastAt < COALESCE_MS) {
+    return { ...history, lastAt: now };
+  }
+  return {
+    past: [...history.past, snapshot].slice(-MAX_ENTRIES),
+    future: [],
+    lastKey: key,
+    lastAt: now,
+  };
+};
+
+export const undoSnapshot = (history: EditHistory, present: HistorySnapshot): { history: EditHistory; snapshot: HistorySnapshot } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [present, ...history.future], lastAt: 0 },
+    snapshot: history.past[history.past.length - 1],
+  };
+};
+
+export const redoSnapshot = (history: EditHistory, present: HistorySnapshot): { history: EditHistory; snapshot: HistorySnapshot } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, present], future: history.future.slice(1), lastAt: 0 },
+    snapshot: history.future[0],
+  };
+};
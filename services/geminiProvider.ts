@@ -0,0 +1,164 @@
+import { GoogleGenAI, GenerateContentResponse, Modality, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { SafetyMode, ProviderSettings } from "../types";
+import { AIProvider } from "./aiProvider";
+import { base64ToBytes } from "./audioUtils";
+
+// One client per key so a key entered in settings takes effect without a reload
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (settings: ProviderSettings) => {
+  const apiKey = settings.apiKey || process.env.API_KEY || '';
+  if (!clients.has(apiKey)) clients.set(apiKey, new GoogleGenAI({ apiKey }));
+  return clients.get(apiKey)!;
+};
+
+// Helper for Safety Settings
+const getSafetySettings = (mode: SafetyMode) => {
+    // Map SafetyMode to Gemini API thresholds
+    // Strict -> BLOCK_LOW_AND_ABOVE
+    // Normal -> BLOCK_MEDIUM_AND_ABOVE
+    // Relaxed -> BLOCK_ONLY_HIGH
+
+    const threshold = mode === SafetyMode.Relaxed ? HarmBlockThreshold.BLOCK_ONLY_HIGH :
+                      mode === SafetyMode.Strict ? HarmBlockThreshold.BLOCK_LOW_AND_ABOVE :
+                      HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE;
+
+    return [
+        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold },
+        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold },
+        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold },
+        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold },
+    ];
+};
+
+// Helper for turning an uploaded data URL into an inline image part
+const dataUrlToInlinePart = (dataUrl: string) => {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+    if (!match) throw new Error("Reference image must be a base64 data URL.");
+    return { inlineData: { mimeType: match[1], data: match[2] } };
+};
+
+// Pulls the generated image out of a response, surfacing blocks and text-only replies as errors
+const extractImage = (response: GenerateContentResponse): string => {
+    if (response.candidates?.[0]?.finishReason && response.candidates[0].finishReason !== 'STOP') {
+       const textPart = response.candidates?.[0]?.content?.parts?.find(p => p.text)?.text;
+       throw new Error(textPart || `Generation blocked by safety settings (${response.candidates[0].finishReason})`);
+    }
+
+    if (response.candidates?.[0]?.content?.parts) {
+      for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData && part.inlineData.data) {
+              return `data:${part.inlineData.mimeType || 'image/jpeg'};base64,${part.inlineData.data}`;
+          }
+      }
+    }
+
+    const textResponse = response.candidates?.[0]?.content?.parts?.find(p => p.text)?.text;
+    if (textResponse) {
+        throw new Error(`Model returned text instead of image: "${textResponse.slice(0, 100)}..."`);
+    }
+
+    throw new Error("No image data found in response");
+};
+
+export const geminiProvider: AIProvider = {
+  generateText: async (request, settings) => {
+    const response = await getClient(settings).models.generateContent({
+      model: settings.model,
+      contents: {
+        role: 'user',
+        parts: [...(request.images || []).map(dataUrlToInlinePart), { text: request.prompt }]
+      },
+      config: {
+        systemInstruction: request.systemInstruction,
+        ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+        safetySettings: getSafetySettings(request.safetyMode || SafetyMode.Normal)
+      }
+    });
+
+    // Check for Prompt Feedback Block (Pre-generation block)
+    if (response.promptFeedback?.blockReason) {
+         throw new Error(`Content blocked by safety filters: ${response.promptFeedback.blockReason}. Try adjusting the Safety Mode to 'Relaxed' or modifying your script.`);
+    }
+
+    // Check for Candidate Safety Block (Post-generation block)
+    if (response.candidates?.[0]?.finishReason && response.candidates[0].finishReason !== 'STOP') {
+        throw new Error(`Generation blocked by AI safety filters. Reason: ${response.candidates[0].finishReason}`);
+    }
+
+    const text = response.text || response.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+        console.error("Empty Response Debug:", JSON.stringify(response, null, 2));
+        throw new Error("Model returned empty response. Your script might be too short or violate safety policies.");
+    }
+    return text;
+  },
+
+  generateImage: async (request, settings) => {
+    const portraits = request.characterReferences || [];
+    const styleNote = request.referenceImage
+      ? ' Match the art style, color palette and character designs of the attached reference image, but compose a new scene.'
+      : '';
+    const portraitNote = portraits.length > 0
+      ? ` Character portraits are attached for ${portraits.map(p => p.name).join(', ')}${request.referenceImage ? ' (after the style reference)' : ''}, in that order; keep each character's face and look consistent with their portrait.`
+      : '';
+    const finalPrompt = `Generate an image of: ${request.prompt}.${styleNote}${portraitNote} Do not respond with text.`;
+
+    const response = await getClient(settings).models.generateContent({
+      model: settings.model,
+      contents: {
+        parts: [
+          ...(request.referenceImage ? [dataUrlToInlinePart(request.referenceImage)] : []),
+          ...portraits.map(p => dataUrlToInlinePart(p.image)),
+          { text: finalPrompt }
+        ]
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+        }
+      }
+    });
+
+    return extractImage(response);
+  },
+
+  editImage: async (request, settings) => {
+    const response = await getClient(settings).models.generateContent({
+      model: settings.model,
+      contents: {
+        parts: [
+          dataUrlToInlinePart(request.image),
+          { text: `Edit the attached image: ${request.instruction}. Change only what the instruction asks for and keep everything else, including style and composition, the same. Do not respond with text.` }
+        ]
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+        }
+      }
+    });
+
+    return extractImage(response);
+  },
+
+  synthesizeSpeech: async (request, settings) => {
+    const response = await getClient(settings).models.generateContent({
+      model: settings.model,
+      // The TTS model takes delivery direction as a spoken-style prefix ("Say cheerfully: ...")
+      contents: [{ parts: [{ text: request.style ? `${request.style}:\n${request.text}` : request.text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: request.voiceName },
+          },
+        },
+      },
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("No audio content in response");
+    return base64ToBytes(base64Audio);
+  },
+};
@@ -1,357 +1,434 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Scene, VideoConfig, Niche, SafetyMode, ImageAspect } from "../types";
-import { pcmToBase64Wav, base64ToBytes, createWavUrlFromPcmBytes } from "./audioUtils";
+import { Scene, VideoConfig, Niche, SafetyMode, ImageAspect, Character, DialogueLine, PronunciationEntry, AudioProcessingSettings } from "../types";
+import { createWavUrlFromPcmBytes, concatPcmChunks, createSilencePcm } from "./audioUtils";
+import { parseSpeechMarkup, hasSpeechMarkup } from "./speechMarkup";
+import { prepareSpeechChunk, finalizeSpeech } from "./audioProcessing";
+import { scheduleRequest } from "./rateLimiter";
+import { getProvider, TextRequest, CharacterReference } from "./aiProvider";
+import { planPacing, formatRuntime, countWords } from "./pacing";
+import { resolveVoiceDirection, describeVoiceDirection } from "./voiceDirection";
+import { urlToDataUrl } from "./projectFile";
+import { NARRATION_WPM, NARRATOR_SPEAKER, DIALOGUE_GAP_MS, DEFAULT_AUDIO_PROCESSING } from "../constants";
+
+// Every model call goes through the provider chosen for its capability, paced by the scheduler
+const generateText = (request: TextRequest) =>
+  scheduleRequest('text', () => {
+    const { provider, settings } = getProvider('text');
+    return provider.generateText(request, settings);
+  });
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+// Sanitize markdown code blocks if present (e.g. ```json ... ```)
+const stripCodeFence = (text: string) => text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
 
-// Helper for rate limits
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// 1. SCRIPT ANALYSIS & SEGMENTATION
+// Long scripts are analyzed in parts so each JSON response stays well inside the output limit
+const ANALYSIS_CHUNK_WORDS = 1200;
+
+interface AnalysisContext {
+  detectedNiche?: string;
+  continuityNotes: string; // Characters, places and style established by earlier parts
+  lastScene?: { scriptText: string; visualPrompt: string };
+}
+
+interface AnalyzedChunk {
+  detectedNiche: string;
+  continuityNotes?: string;
+  scenes: {
+    scriptText: string;
+    visualPrompt: string;
+    estimatedDuration: number;
+    characters?: string[];
+    dialogue?: { speaker: string; text: string }[];
+  }[];
+}
+
+// Splits at paragraph breaks, falling back to sentences for paragraphs longer than a chunk
+const splitScriptIntoChunks = (text: string, maxWords: number): string[] => {
+  const units = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).flatMap(paragraph =>
+    countWords(paragraph) > maxWords ? (paragraph.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || [paragraph]).map(s => s.trim()) : [paragraph]
+  );
 
-const retryWithBackoff = async <T>(fn: () => Promise<T>, retries = 5, delay = 5000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (error: any) {
-    // Check for various 429/Resource Exhausted error formats
-    const errorString = JSON.stringify(error);
-    const isRateLimit = 
-      error?.status === 429 || 
-      error?.code === 429 || 
-      error?.error?.code === 429 ||
-      error?.response?.status === 429 ||
-      errorString.includes('429') ||
-      errorString.includes('RESOURCE_EXHAUSTED') ||
-      error?.message?.includes('429') ||
-      error?.message?.includes('RESOURCE_EXHAUSTED') ||
-      error?.statusText?.includes('Too Many Requests');
-
-    if (retries > 0 && isRateLimit) {
-      console.warn(`Rate limited. Retrying in ${delay}ms... (${retries} left)`);
-      await wait(delay);
-      return retryWithBackoff(fn, retries - 1, delay * 2);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+  for (const unit of units) {
+    const words = countWords(unit);
+    if (currentWords + words > maxWords && current.length > 0) {
+      chunks.push(current.join('\n\n'));
+      current = [];
+      currentWords = 0;
     }
-    throw error;
+    current.push(unit);
+    currentWords += words;
   }
+  if (current.length > 0) chunks.push(current.join('\n\n'));
+  return chunks.length > 0 ? chunks : [text];
 };
 
-// Helper for Safety Settings
-const getSafetySettings = (mode: SafetyMode) => {
-    // Map SafetyMode to Gemini API thresholds
-    // Strict -> BLOCK_LOW_AND_ABOVE
-    // Normal -> BLOCK_MEDIUM_AND_ABOVE
-    // Relaxed -> BLOCK_ONLY_HIGH
-    
-    const threshold = mode === SafetyMode.Relaxed ? 'BLOCK_ONLY_HIGH' : 
-                      mode === SafetyMode.Strict ? 'BLOCK_LOW_AND_ABOVE' : 
-                      'BLOCK_MEDIUM_AND_ABOVE';
-    
-    return [
-        { category: 'HARM_CATEGORY_HARASSMENT', threshold },
-        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold },
-        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold },
-        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold },
-    ];
+// Maps the names the model tagged back to bible entries (case-insensitive, ignores unknowns)
+const matchCharacters = (characters: Character[], names?: string[]): string[] | undefined => {
+  if (characters.length === 0 || !names) return undefined;
+  const wanted = new Set(names.map(n => n.trim().toLowerCase()));
+  return characters.filter(c => wanted.has(c.name.trim().toLowerCase())).map(c => c.id);
 };
 
-// 1. SCRIPT ANALYSIS & SEGMENTATION
-export const analyzeScript = async (config: VideoConfig): Promise<{ scenes: Scene[], detectedNiche: string }> => {
-  return retryWithBackoff(async () => {
-    let nichePrompt = config.niche === Niche.Auto 
+// Keeps dialogue only when a bible character actually speaks; anything unrecognised is narration
+const matchDialogue = (characters: Character[], lines?: { speaker: string; text: string }[]): DialogueLine[] | undefined => {
+  if (characters.length === 0 || !lines?.length) return undefined;
+  const byName = new Map(characters.map(c => [c.name.trim().toLowerCase(), c.id]));
+  const dialogue = lines
+    .filter(line => line.text?.trim())
+    .map(line => ({ speaker: byName.get(line.speaker?.trim().toLowerCase()) || NARRATOR_SPEAKER, text: line.text.trim() }));
+  return dialogue.some(line => line.speaker !== NARRATOR_SPEAKER) ? dialogue : undefined;
+};
+
+const analyzeChunk = async (config: VideoConfig, part: number, totalParts: number, context: AnalysisContext): Promise<AnalyzedChunk> => {
+  let nichePrompt = context.detectedNiche
+    ? `The niche of this video is ${context.detectedNiche}.`
+    : config.niche === Niche.Auto 
       ? "Analyze the text to determine the best fit niche (e.g., War, Kids, Meditation, Horror, etc)." 
       : `The target niche is ${config.niche}.`;
 
-    const safetyInstruction = config.safetyMode === SafetyMode.Strict 
-      ? "Ensure all visual prompts are strictly safe for all ages. No violence, gore, or frightening elements."
-      : config.safetyMode === SafetyMode.Relaxed 
-        ? "Allow for more mature themes if present in the script, but avoid explicit prohibition violations."
-        : "Avoid graphic violence and explicit content.";
-
-    const characterInstruction = config.characterConsistency
-      ? `IMPORTANT - CHARACTER CONSISTENCY: The following details must be included in every relevant scene's visual prompt to ensure consistency: "${config.characterConsistency}". Start prompts with these character details where applicable.`
-      : "Ensure visual consistency across scenes.";
-
-    const systemInstruction = `
-      You are an expert video director and storyboard artist. 
-      Your task is to split a script into visual scenes.
-      ${nichePrompt}
-      ${safetyInstruction}
-      ${characterInstruction}
-      
-      For the Visual Style, use: ${config.visualStyle}.
-      For the Aspect Ratio, frame the shot for: ${config.imageAspect}.
-      
-      For each scene:
-      1. Extract the spoken text.
-      2. Create a HIGHLY detailed image generation prompt. The prompt must describe the subject, lighting, camera angle, art style, and mood. It must be self-contained.
-      3. Estimate the duration in seconds based on reading speed.
-    `;
-
-    const schema = {
-      type: Type.OBJECT,
-      properties: {
-        detectedNiche: { type: Type.STRING, description: "The detected or confirmed niche of the video." },
-        scenes: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              scriptText: { type: Type.STRING, description: "The exact text to be spoken." },
-              visualPrompt: { type: Type.STRING, description: "A detailed prompt for an image generator." },
-              estimatedDuration: { type: Type.NUMBER, description: "Duration in seconds." }
-            },
-            required: ["scriptText", "visualPrompt", "estimatedDuration"]
-          }
+  const safetyInstruction = config.safetyMode === SafetyMode.Strict 
+    ? "Ensure all visual prompts are strictly safe for all ages. No violence, gore, or frightening elements."
+    : config.safetyMode === SafetyMode.Relaxed 
+      ? "Allow for more mature themes if present in the script, but avoid explicit prohibition violations."
+      : "Avoid graphic violence and explicit content.";
+
+  const characterInstruction = config.characterConsistency
+    ? `IMPORTANT - CHARACTER CONSISTENCY: The following details must be included in every relevant scene's visual prompt to ensure consistency: "${config.characterConsistency}". Start prompts with these character details where applicable.`
+    : "Ensure visual consistency across scenes.";
+
+  const cast = config.characters.filter(c => c.name.trim());
+  const bibleInstruction = cast.length > 0 ? `
+    CHARACTER BIBLE: These named characters may appear. For each scene, list in "characters" the names of those who are visible in the shot.
+    In visual prompts refer to them by name only; their detailed descriptions and portraits are supplied to the image generator separately.
+    DIALOGUE: When a scene contains lines spoken by these characters, also return "dialogue": the scene's spoken text split into consecutive lines in order, each with "speaker" set to the character's name, or "Narrator" for everything else. Joined in order, the lines must reproduce the spoken text exactly. Omit "dialogue" for pure narration.
+    ${cast.map(c => `- ${c.name}: ${c.appearance}${c.wardrobe ? `; wears ${c.wardrobe}` : ''}`).join('\n    ')}
+  ` : "";
+
+  const pacing = planPacing(config);
+  const fitInstruction = !config.fitScriptToDuration || pacing.fit === 'ok'
+    ? "Keep the spoken text verbatim; do not add, remove or reword narration."
+    : pacing.fit === 'short'
+      ? `The script is only about ${pacing.wordCount} words but the target runtime needs about ${pacing.targetWords}. EXPAND the narration to roughly ${pacing.targetWords} words by deepening descriptions and adding connective detail, without changing the story, tone or facts.`
+      : `The script is about ${pacing.wordCount} words but the target runtime only allows about ${pacing.targetWords}. CONDENSE the narration to roughly ${pacing.targetWords} words, keeping every key beat and the original voice.`;
+
+  const pacingInstruction = `
+    PACING: The finished video should run about ${formatRuntime(pacing.plannedSeconds)} (narration at ~${NARRATION_WPM} words per minute).
+    Split it into approximately ${pacing.sceneCount} scenes of ~${Math.round(pacing.secondsPerScene)} seconds each; the scene durations should add up to the total runtime.
+    ${fitInstruction}
+  `;
+
+  const continuityInstruction = totalParts > 1 ? `
+    This is PART ${part + 1} OF ${totalParts} of a longer script; only storyboard the text you are given.
+    ${context.continuityNotes ? `Established so far (keep it consistent): ${context.continuityNotes}` : ''}
+    ${context.lastScene ? `The previous scene said "${context.lastScene.scriptText}" and showed: ${context.lastScene.visualPrompt}. Continue naturally from it.` : ''}
+    ${part < totalParts - 1 ? "Also return continuityNotes: under 150 words describing the recurring characters (appearance, clothing), locations and visual style established so far, merging the notes above, so later parts stay consistent." : ''}
+  ` : "";
+
+  const markupInstruction = hasSpeechMarkup(config.scriptText)
+    ? "The script contains speech markup: [pause 1.5s], *emphasis* and {word|phonetic}. Copy it into the spoken text exactly where it occurs; never drop, translate or reformat it."
+    : "";
+
+  const referenceInstruction = config.referenceImage
+    ? "A REFERENCE IMAGE is attached. Describe its art style, color palette, lighting and any recurring characters in concrete terms, and weave that description into every visual prompt so each scene matches it."
+    : "";
+
+  const systemInstruction = `
+    You are an expert video director and storyboard artist. 
+    Your task is to split a script into visual scenes.
+    ${nichePrompt}
+    ${safetyInstruction}
+    ${characterInstruction}
+    ${bibleInstruction}
+    ${referenceInstruction}
+    ${pacingInstruction}
+    ${continuityInstruction}
+    
+    For the Visual Style, use: ${config.visualStyle}.
+    For the Aspect Ratio, frame the shot for: ${config.imageAspect}.
+    
+    ${markupInstruction}
+    
+    For each scene:
+    1. Extract the spoken text (rewritten only as the PACING rules allow).
+    2. Create a HIGHLY detailed image generation prompt. The prompt must describe the subject, lighting, camera angle, art style, and mood. It must be self-contained.
+    3. Estimate the duration in seconds based on reading speed.
+  `;
+
+  const schema = {
+    type: 'object',
+    properties: {
+      detectedNiche: { type: 'string', description: "The detected or confirmed niche of the video." },
+      continuityNotes: { type: 'string', description: "Recurring characters, locations and style so far (multi-part scripts only)." },
+      scenes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            scriptText: { type: 'string', description: "The exact text to be spoken." },
+            visualPrompt: { type: 'string', description: "A detailed prompt for an image generator." },
+            estimatedDuration: { type: 'number', description: "Duration in seconds." },
+            characters: { type: 'array', items: { type: 'string' }, description: "Names from the character bible visible in this scene." },
+            dialogue: {
+              type: 'array',
+              description: "The spoken text attributed line by line to speakers (scenes with character dialogue only).",
+              items: {
+                type: 'object',
+                properties: {
+                  speaker: { type: 'string', description: "Character name, or Narrator." },
+                  text: { type: 'string' }
+                },
+                required: ["speaker", "text"]
+              }
+            }
+          },
+          required: ["scriptText", "visualPrompt", "estimatedDuration"]
         }
-      },
-      required: ["detectedNiche", "scenes"]
-    };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        role: 'user',
-        parts: [{ text: config.scriptText }]
-      },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: 'application/json',
-        responseSchema: schema,
-        safetySettings: getSafetySettings(config.safetyMode)
       }
-    });
-
-    // Check for Prompt Feedback Block (Pre-generation block)
-    if (response.promptFeedback?.blockReason) {
-         throw new Error(`Content blocked by safety filters: ${response.promptFeedback.blockReason}. Try adjusting the Safety Mode to 'Relaxed' or modifying your script.`);
-    }
+    },
+    required: ["detectedNiche", "scenes"]
+  };
+
+  const text = stripCodeFence(await generateText({
+    systemInstruction,
+    prompt: config.scriptText,
+    images: config.referenceImage ? [config.referenceImage] : undefined,
+    responseSchema: schema,
+    safetyMode: config.safetyMode
+  }));
+
+  let json;
+  try {
+      json = JSON.parse(text);
+  } catch (e) {
+      console.error("Failed to parse JSON:", text);
+      throw new Error("Failed to parse JSON response from model.");
+  }
+  
+  // Validate structure
+  if (!json.scenes || !Array.isArray(json.scenes)) {
+       // Fallback: Check if the root itself is the scenes array
+       if (Array.isArray(json)) {
+           return {
+               detectedNiche: context.detectedNiche || config.niche,
+               scenes: json.map((s: any) => ({
+                  scriptText: s.scriptText || '',
+                  visualPrompt: s.visualPrompt || '',
+                  estimatedDuration: s.estimatedDuration || 5
+               }))
+           };
+       }
+       console.error("Invalid JSON structure:", json);
+       throw new Error("Invalid response format: 'scenes' array missing.");
+  }
+  
+  return {
+    detectedNiche: json.detectedNiche || context.detectedNiche || config.niche,
+    continuityNotes: json.continuityNotes,
+    scenes: json.scenes
+  };
+};
 
-    // Check for Candidate Safety Block (Post-generation block)
-    if (response.candidates?.[0]?.finishReason && response.candidates[0].finishReason !== 'STOP') {
-        throw new Error(`Analysis blocked by AI safety filters. Reason: ${response.candidates[0].finishReason}`);
-    }
+/**
+ * Splits the script into scenes. Long scripts are analyzed part by part, each part carrying
+ * the continuity notes and last scene of the one before; onPartial receives the scenes
+ * gathered so far after every part so the storyboard can fill in as it goes.
+ */
+export const analyzeScript = async (
+  config: VideoConfig,
+  onPartial?: (scenes: Scene[], completedParts: number, totalParts: number) => void
+): Promise<{ scenes: Scene[], detectedNiche: string }> => {
+  const chunks = splitScriptIntoChunks(config.scriptText, ANALYSIS_CHUNK_WORDS);
+  const totalWords = Math.max(1, countWords(config.scriptText));
+  const batchId = Date.now();
+  const scenes: Scene[] = [];
+  let context: AnalysisContext = { continuityNotes: '' };
 
-    let text = response.text;
-    if (!text) {
-        // Fallback attempt to get text from parts
-        text = response.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (!text) {
-             console.error("Empty Response Debug:", JSON.stringify(response, null, 2));
-             throw new Error("Model returned empty response. Your script might be too short or violate safety policies.");
-        }
-    }
-    
-    // Sanitize markdown code blocks if present (e.g. ```json ... ```)
-    text = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-
-    let json;
-    try {
-        json = JSON.parse(text);
-    } catch (e) {
-        console.error("Failed to parse JSON:", text);
-        throw new Error("Failed to parse JSON response from model.");
-    }
-    
-    // Validate structure
-    if (!json.scenes || !Array.isArray(json.scenes)) {
-         // Fallback: Check if the root itself is the scenes array
-         if (Array.isArray(json)) {
-             return {
-                 detectedNiche: config.niche,
-                 scenes: json.map((s: any, i: number) => ({
-                    id: `scene-${Date.now()}-${i}`,
-                    sequence: i,
-                    scriptText: s.scriptText || '',
-                    visualPrompt: s.visualPrompt || '',
-                    estimatedDuration: s.estimatedDuration || 5,
-                    status: 'pending'
-                 }))
-             };
-         }
-         console.error("Invalid JSON structure:", json);
-         throw new Error("Invalid response format: 'scenes' array missing.");
-    }
-    
-    return {
-      detectedNiche: json.detectedNiche || config.niche,
-      scenes: json.scenes.map((s: any, i: number) => ({
-        id: `scene-${Date.now()}-${i}`,
-        sequence: i,
+  for (let i = 0; i < chunks.length; i++) {
+    // Each part gets its share of the target runtime
+    const share = countWords(chunks[i]) / totalWords;
+    const result = await analyzeChunk(
+      { ...config, scriptText: chunks[i], targetDurationMinutes: config.targetDurationMinutes * share },
+      i,
+      chunks.length,
+      context
+    );
+
+    result.scenes.forEach(s => {
+      scenes.push({
+        id: `scene-${batchId}-${scenes.length}`,
+        sequence: scenes.length,
         scriptText: s.scriptText,
         visualPrompt: s.visualPrompt,
+        characterIds: matchCharacters(config.characters, s.characters),
+        dialogue: matchDialogue(config.characters, s.dialogue),
         estimatedDuration: s.estimatedDuration,
         status: 'pending'
-      }))
+      });
+    });
+
+    const lastScene = scenes[scenes.length - 1];
+    context = {
+      detectedNiche: result.detectedNiche,
+      continuityNotes: result.continuityNotes || context.continuityNotes,
+      lastScene: lastScene ? { scriptText: lastScene.scriptText, visualPrompt: lastScene.visualPrompt } : context.lastScene,
     };
-  });
+
+    if (onPartial) onPartial([...scenes], i + 1, chunks.length);
+  }
+
+  return { scenes, detectedNiche: context.detectedNiche || config.niche };
 };
 
 // 1.5 STORY SCENE BREAKDOWN (For Image Tool)
 export const generateStoryScenePrompts = async (script: string, style: string, charConsistency: string): Promise<string[]> => {
-    return retryWithBackoff(async () => {
-        const systemInstruction = `
-          You are a Scene-by-Scene Image Generator AI.
-          
-          TASK:
-          1. Break the story into clear, distinct SCENES.
-          2. Generate exactly ONE detailed image prompt per scene.
-          3. Every image prompt MUST explicitly include the character descriptions provided below to ensure consistency.
-          
-          STRICT RULES:
-          - Keep character appearance 100% consistent across all scenes.
-          - Keep art style (${style}) 100% identical in every scene.
-          - Output ONLY a simple JSON array of strings (the prompts).
-          
-          CHARACTERS (INCLUDE IN EVERY PROMPT):
-          ${charConsistency || "No specific character details provided. Infer consistent characters from script and reuse their description in every prompt."}
-
-          OUTPUT FORMAT:
-          ["Scene 1 prompt with character details...", "Scene 2 prompt with character details..."]
-        `;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                role: 'user',
-                parts: [{ text: script }]
-            },
-            config: {
-                systemInstruction: systemInstruction,
-                responseMimeType: 'application/json',
-                safetySettings: [
-                    { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
-                    { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
-                    { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
-                    { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
-                ],
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING }
-                }
-            }
-        });
-
-        if (response.promptFeedback?.blockReason) {
-            throw new Error(`Content blocked by safety filters: ${response.promptFeedback.blockReason}`);
-        }
+    const systemInstruction = `
+      You are a Scene-by-Scene Image Generator AI.
+      
+      TASK:
+      1. Break the story into clear, distinct SCENES.
+      2. Generate exactly ONE detailed image prompt per scene.
+      3. Every image prompt MUST explicitly include the character descriptions provided below to ensure consistency.
+      
+      STRICT RULES:
+      - Keep character appearance 100% consistent across all scenes.
+      - Keep art style (${style}) 100% identical in every scene.
+      - Output ONLY a simple JSON array of strings (the prompts).
+      
+      CHARACTERS (INCLUDE IN EVERY PROMPT):
+      ${charConsistency || "No specific character details provided. Infer consistent characters from script and reuse their description in every prompt."}
 
-        if (response.candidates?.[0]?.finishReason && response.candidates[0].finishReason !== 'STOP') {
-            throw new Error(`Generation blocked by AI safety filters. Reason: ${response.candidates[0].finishReason}`);
-        }
+      OUTPUT FORMAT:
+      ["Scene 1 prompt with character details...", "Scene 2 prompt with character details..."]
+    `;
 
-        let text = response.text || '[]';
-        text = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        
-        let json;
-        try {
-            json = JSON.parse(text);
-        } catch (e) {
-            console.error("Failed to parse story prompts:", text);
-            return [];
-        }
+    const text = stripCodeFence(await generateText({
+        systemInstruction,
+        prompt: script,
+        responseSchema: { type: 'array', items: { type: 'string' } },
+        safetyMode: SafetyMode.Relaxed
+    }));
+    
+    let json;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        console.error("Failed to parse story prompts:", text);
+        return [];
+    }
 
-        return Array.isArray(json) ? json : [];
-    });
+    return Array.isArray(json) ? json : [];
 };
 
 // 1.6 SCRIPT GENERATION TOOL
 export const generateCreativeScript = async (topic: string, niche: string, duration: number): Promise<string> => {
-    return retryWithBackoff(async () => {
-        const approxWords = Math.ceil(duration * 150); // ~150 words per minute average reading speed
+    const approxWords = Math.ceil(duration * NARRATION_WPM);
+    
+    const systemInstruction = `
+        You are a professional screenwriter for viral videos and documentaries.
         
-        const systemInstruction = `
-            You are a professional screenwriter for viral videos and documentaries.
-            
-            TASK:
-            Write a complete, engaging video script based on the user's topic.
-            
-            PARAMETERS:
-            - Topic: "${topic}"
-            - Target Niche: ${niche}
-            - Target Duration: ${duration} minutes (approx. ${approxWords} words)
-            
-            FORMATTING RULES:
-            - Do NOT include camera directions like "Cut to", "Fade in" inside the dialogue.
-            - Write primarily the spoken narration/dialogue.
-            - You can include short [Visual Notes] in brackets, but keep the focus on the spoken text.
-            - Ensure the tone matches the ${niche} niche (e.g. Dramatic for War, Soothing for Meditation).
-            - The output should be ready to paste into a Text-to-Speech engine.
-            
-            OUTPUT:
-            Return ONLY the script text.
-        `;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                role: 'user',
-                parts: [{ text: `Write a script about: ${topic}` }]
-            },
-            config: {
-                systemInstruction: systemInstruction,
-                safetySettings: [
-                    { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
-                    { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
-                    { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
-                    { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
-                ]
-            }
-        });
-
-        if (response.promptFeedback?.blockReason) {
-            throw new Error(`Content blocked by safety filters: ${response.promptFeedback.blockReason}`);
-        }
+        TASK:
+        Write a complete, engaging video script based on the user's topic.
+        
+        PARAMETERS:
+        - Topic: "${topic}"
+        - Target Niche: ${niche}
+        - Target Duration: ${duration} minutes (approx. ${approxWords} words)
+        
+        FORMATTING RULES:
+        - Do NOT include camera directions like "Cut to", "Fade in" inside the dialogue.
+        - Write primarily the spoken narration/dialogue.
+        - You can include short [Visual Notes] in brackets, but keep the focus on the spoken text.
+        - Ensure the tone matches the ${niche} niche (e.g. Dramatic for War, Soothing for Meditation).
+        - The output should be ready to paste into a Text-to-Speech engine.
+        
+        OUTPUT:
+        Return ONLY the script text.
+    `;
 
-        return response.text || "Failed to generate script.";
+    return generateText({
+        systemInstruction,
+        prompt: `Write a script about: ${topic}`,
+        safetyMode: SafetyMode.Relaxed
     });
 };
 
+// 1.7 PROMPT REFINEMENT
+// Rewrites one scene's visual prompt according to a short instruction ("make it night", "closer shot")
+export const refineVisualPrompt = async (scene: Scene, instruction: string, config: VideoConfig): Promise<string> => {
+    const systemInstruction = `
+        You are an expert prompt writer for AI image generation.
 
-// 2. GENERIC IMAGE GENERATION
-export const generateImage = async (prompt: string, aspectRatio: ImageAspect): Promise<string> => {
-  return retryWithBackoff(async () => {
-    const finalPrompt = `Generate an image of: ${prompt}. Do not respond with text.`;
+        TASK:
+        Revise the current image prompt so it follows the requested change.
 
-    try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [{ text: finalPrompt }]
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: aspectRatio,
-          }
-        }
-      });
-
-      if (response.candidates?.[0]?.finishReason && response.candidates[0].finishReason !== 'STOP') {
-         const textPart = response.candidates?.[0]?.content?.parts?.find(p => p.text)?.text;
-         throw new Error(textPart || `Generation blocked by safety settings (${response.candidates[0].finishReason})`);
-      }
+        RULES:
+        - Apply the change fully, but keep everything the change does not touch (subject, characters, setting, composition).
+        - Keep the art style consistent with: ${config.visualStyle}.
+        - Stay faithful to the narration the image illustrates.
+        - Return a single prompt of similar length and detail, not a list of options.
+    `;
 
-      if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData && part.inlineData.data) {
-                return `data:${part.inlineData.mimeType || 'image/jpeg'};base64,${part.inlineData.data}`;
-            }
-        }
-      }
-      
-      const textResponse = response.candidates?.[0]?.content?.parts?.find(p => p.text)?.text;
-      if (textResponse) {
-          throw new Error(`Model returned text instead of image: "${textResponse.slice(0, 100)}..."`);
-      }
+    const text = stripCodeFence(await generateText({
+        systemInstruction,
+        prompt: `NARRATION:\n${scene.scriptText}\n\nCURRENT PROMPT:\n${scene.visualPrompt}\n\nCHANGE:\n${instruction}`,
+        responseSchema: { type: 'object', properties: { prompt: { type: 'string' } }, required: ['prompt'] },
+        safetyMode: config.safetyMode
+    }));
 
-      throw new Error("No image data found in response");
-    } catch (error) {
-      console.error("Image generation failed:", error);
-      throw error;
+    let json;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        console.error("Failed to parse refined prompt:", text);
+        throw new Error("Failed to refine prompt.");
     }
-  });
+    if (typeof json?.prompt !== 'string' || !json.prompt.trim()) throw new Error("Model returned an empty prompt.");
+    return json.prompt.trim();
 };
 
+// 2. GENERIC IMAGE GENERATION
+export const generateImage = async (
+  prompt: string,
+  aspectRatio: ImageAspect,
+  referenceImage?: string | null,
+  characterReferences?: CharacterReference[]
+): Promise<string> => {
+  try {
+    return await scheduleRequest('image', () => {
+      const { provider, settings } = getProvider('image');
+      return provider.generateImage({ prompt, aspectRatio, referenceImage, characterReferences }, settings);
+    });
+  } catch (error) {
+    console.error("Image generation failed:", error);
+    throw error;
+  }
+};
+
+// Changes an existing image according to an instruction instead of generating from scratch
+export const editImage = async (image: string, instruction: string, aspectRatio: ImageAspect): Promise<string> => {
+  try {
+    const source = await urlToDataUrl(image);
+    return await scheduleRequest('image', () => {
+      const { provider, settings } = getProvider('image');
+      return provider.editImage({ image: source, instruction, aspectRatio }, settings);
+    });
+  } catch (error) {
+    console.error("Image edit failed:", error);
+    throw error;
+  }
+};
+
+// Only the characters tagged in this scene are described and sent as portraits
 export const generateSceneImage = async (scene: Scene, config: VideoConfig): Promise<string> => {
-  return generateImage(scene.visualPrompt, config.imageAspect);
+  const cast = config.characters.filter(c => scene.characterIds?.includes(c.id));
+  const prompt = cast.length > 0
+    ? `${scene.visualPrompt}\n\nCharacters in this scene:\n${cast.map(c => `- ${c.name}: ${c.appearance}${c.wardrobe ? `; wearing ${c.wardrobe}` : ''}`).join('\n')}`
+    : scene.visualPrompt;
+  const portraits = cast.filter(c => c.referenceImage).map(c => ({ name: c.name, image: c.referenceImage! }));
+
+  return generateImage(prompt, config.imageAspect, config.referenceImage, portraits);
 };
 
 // 3. SPEECH GENERATION (Robust Chunking)
@@ -377,59 +454,104 @@ const splitTextIntoChunks = (text: string, limit: number): string[] => {
   return chunks;
 };
 
-export const generateSpeech = async (
-    text: string, 
-    voiceName: string, 
+export interface SpeechOptions {
+  style?: string; // Delivery direction applied to every chunk
+  pronunciations?: PronunciationEntry[];
+  processing?: AudioProcessingSettings; // Defaults to DEFAULT_AUDIO_PROCESSING
+}
+
+type SpeechPart = { type: 'speech'; text: string; emphasis: string[] } | { type: 'pause'; seconds: number };
+
+// Markup is resolved first; pauses split the text, so no chunk ever straddles one
+const planSpeechParts = (text: string, pronunciations?: PronunciationEntry[]): SpeechPart[] =>
+  parseSpeechMarkup(text, pronunciations).flatMap((segment): SpeechPart[] => segment.type === 'pause'
+    ? [segment]
+    : splitTextIntoChunks(segment.text, MAX_TTS_CHARS).map(chunk => ({
+        type: 'speech',
+        text: chunk,
+        emphasis: segment.emphasis.filter(word => chunk.includes(word)),
+      }))
+  );
+
+const withEmphasis = (style: string | undefined, emphasis: string[]) =>
+  emphasis.length === 0 ? style : `${style || 'Read the following'}, stressing ${emphasis.map(word => `"${word}"`).join(', ')}`;
+
+// One voice's marked-up text to raw PCM, with [pause] markers rendered as real silence
+const synthesizeMarkedUpText = async (
+    text: string,
+    voiceName: string,
+    options: SpeechOptions,
     onProgress?: (completed: number, total: number) => void
-): Promise<string> => {
-    
-  const chunks = splitTextIntoChunks(text, MAX_TTS_CHARS);
+): Promise<Uint8Array> => {
+  const parts = planSpeechParts(text, options.pronunciations);
+  const total = parts.filter(part => part.type === 'speech').length;
+  if (total === 0) throw new Error("Failed to generate audio chunks");
+
   const pcmChunks: Uint8Array[] = [];
-  
-  if (onProgress) onProgress(0, chunks.length);
+  let completed = 0;
+  if (onProgress) onProgress(0, total);
 
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    
-    await retryWithBackoff(async () => {
-       const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: chunk }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: voiceName },
-            },
-          },
-        },
-      });
+  for (const part of parts) {
+    if (part.type === 'pause') {
+      pcmChunks.push(createSilencePcm(part.seconds));
+      continue;
+    }
 
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-         pcmChunks.push(base64ToBytes(base64Audio));
-      } else {
-        throw new Error("No audio content in response");
-      }
+    const pcm = await scheduleRequest('tts', () => {
+      const { provider, settings } = getProvider('tts');
+      return provider.synthesizeSpeech({ text: part.text, voiceName, style: withEmphasis(options.style, part.emphasis) }, settings);
     });
-    
-    if (onProgress) onProgress(i + 1, chunks.length);
-    if (chunks.length > 5) await wait(1000);
+    // Trimmed and faded per chunk so joins and [pause] lengths come out as written
+    pcmChunks.push(prepareSpeechChunk(pcm, options.processing || DEFAULT_AUDIO_PROCESSING));
+
+    completed++;
+    if (onProgress) onProgress(completed, total);
   }
 
-  if (pcmChunks.length === 0) throw new Error("Failed to generate audio chunks");
+  return concatPcmChunks(pcmChunks);
+};
 
-  const totalLength = pcmChunks.reduce((acc, chunk) => acc + chunk.length, 0);
-  const combinedPcm = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const chunk of pcmChunks) {
-    combinedPcm.set(chunk, offset);
-    offset += chunk.length;
-  }
+// The TTS provider's voice setting replaces the narrator only; cast voices are never overridden
+const getNarratorVoice = (voiceName: string): string => getProvider('tts').settings.voice || voiceName;
+
+export const generateSpeech = async (
+    text: string, 
+    voiceName: string, 
+    onProgress?: (completed: number, total: number) => void,
+    options: SpeechOptions = {}
+): Promise<string> => {
+  const pcm = await synthesizeMarkedUpText(text, getNarratorVoice(voiceName), options, onProgress);
+  return createWavUrlFromPcmBytes(finalizeSpeech(pcm, options.processing || DEFAULT_AUDIO_PROCESSING));
+};
 
-  return createWavUrlFromPcmBytes(combinedPcm);
+// Each line is voiced separately in its speaker's voice, then stitched with a short pause
+const generateDialogueSpeech = async (lines: { text: string; voiceName: string }[], options: SpeechOptions): Promise<string> => {
+  const pcmLines = await Promise.all(lines.map(({ text, voiceName }) => synthesizeMarkedUpText(text, voiceName, options)));
+  if (pcmLines.length === 0) throw new Error("Failed to generate audio chunks");
+  return createWavUrlFromPcmBytes(finalizeSpeech(concatPcmChunks(pcmLines, DIALOGUE_GAP_MS), options.processing || DEFAULT_AUDIO_PROCESSING));
 };
 
-export const generateSceneAudio = async (scene: Scene, config: VideoConfig): Promise<string> => {
-  return generateSpeech(scene.scriptText, config.voiceProfile.name);
+// Characters without a cast voice read in the narrator's voice
+const getSpeakerVoice = (speaker: string, config: VideoConfig): string =>
+  config.characters.find(c => c.id === speaker)?.voiceName || getNarratorVoice(config.voiceProfile.name);
+
+export interface SceneAudio {
+  url: string;
+  voice: string; // Voice(s) actually used, e.g. "Kore" or "Kore, Puck" for cast dialogue
+}
+
+export const generateSceneAudio = async (scene: Scene, config: VideoConfig): Promise<SceneAudio> => {
+  const options: SpeechOptions = {
+    style: describeVoiceDirection(resolveVoiceDirection(config, scene)),
+    pronunciations: config.pronunciations,
+    processing: config.audioProcessing,
+  };
+  const lines = (scene.dialogue || []).map(line => ({ text: line.text, voiceName: getSpeakerVoice(line.speaker, config) }));
+  // Single-voice scenes keep the plain path so narration flows without stitched pauses
+  const narratorVoice = getNarratorVoice(config.voiceProfile.name);
+  if (lines.length === 0 || lines.every(line => line.voiceName === narratorVoice)) {
+    return { url: await generateSpeech(scene.scriptText, config.voiceProfile.name, undefined, options), voice: narratorVoice };
+  }
+  const voices = Array.from(new Set(lines.map(line => line.voiceName)));
+  return { url: await generateDialogueSpeech(lines, options), voice: voices.join(', ') };
 };
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { Scene, VideoConfig } from '../types';
+import { generateSceneImage, generateSceneAudio } from './geminiService';
+import { measureAudioDuration } from './audioUtils';
+import { getRateLimits } from './rateLimiter';
+import { addImageTakes, addAudioTake } from './sceneTakes';
+
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super("Generation cancelled");
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+export interface PipelineController {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  isCancelled: () => boolean;
+  // Waits while paused; throws PipelineCancelledError once cancelled
+  checkpoint: () => Promise<void>;
+}
+
+export const createPipelineController = (onStateChange?: (paused: boolean) => void): PipelineController => {
+  let paused = false;
+  let cancelled = false;
+  let resumeWaiters: (() => void)[] = [];
+
+  const release = () => {
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+  };
+
+  return {
+    pause: () => {
+      if (cancelled || paused) return;
+      paused = true;
+      onStateChange?.(true);
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      onStateChange?.(false);
+      release();
+    },
+    cancel: () => {
+      cancelled = true;
+      paused = false;
+      release();
+    },
+    isPaused: () => paused,
+    isCancelled: () => cancelled,
+    checkpoint: async () => {
+      while (paused && !cancelled) {
+        await new Promise<void>(resolve => resumeWaiters.push(resolve));
+      }
+      if (cancelled) throw new PipelineCancelledError();
+    },
+  };
+};
+
+// Either the fields to overwrite, or a function deriving them from the latest scene
+// (used for takes, so ones the user added mid-run aren't lost)
+export type SceneChanges = Partial<Scene> | ((scene: Scene) => Partial<Scene>);
+
+export const applySceneChanges = (scene: Scene, changes: SceneChanges): Scene =>
+  ({ ...scene, ...(typeof changes === 'function' ? changes(scene) : changes) });
+
+interface PipelineCallbacks {
+  // Only what the pipeline changed; the caller merges it into its own copy of the scene
+  onSceneUpdate: (id: string, changes: SceneChanges) => void;
+  onProgress: (progress: number, step: string) => void;
+}
+
+type AssetKind = 'image' | 'audio';
+
+// Stale assets still play but are regenerated, since their source text was edited.
+// Nothing is generated from empty text (e.g. a freshly inserted blank scene)
+export const needsImage = (scene: Scene) => !!scene.visualPrompt.trim() && (!scene.imageUrl || !!scene.imageStale);
+export const needsAudio = (scene: Scene) => !!scene.scriptText.trim() && (!scene.audioUrl || !!scene.audioStale);
+export const isSceneComplete = (scene: Scene) => scene.status === 'ready' && !needsImage(scene) && !needsAudio(scene);
+
+/**
+ * Generates missing assets for every scene that isn't ready yet. Finished scenes and
+ * assets that already exist are skipped, so calling this again resumes where it stopped.
+ * Images and audio run on separate worker pools sized to the scheduler's concurrency,
+ * so several scenes are in flight at once while the scheduler paces the actual requests.
+ */
+export const runAssetPipeline = async (
+  scenes: Scene[],
+  config: VideoConfig,
+  controller: PipelineController,
+  { onSceneUpdate, onProgress }: PipelineCallbacks
+): Promise<void> => {
+  const pending = scenes.filter(s => !isSceneComplete(s)).map(s => ({ ...s, error: undefined }));
+  const current = new Map<string, Scene>(pending.map(s => [s.id, s]));
+  const running = new Map<string, Set<AssetKind>>(pending.map(s => [s.id, new Set<AssetKind>()]));
+  const queues: Record<AssetKind, Scene[]> = {
+    image: pending.filter(needsImage),
+    audio: pending.filter(needsAudio),
+  };
+  const remaining = new Map<string, number>(pending.map(s => [s.id, (needsImage(s) ? 1 : 0) + (needsAudio(s) ? 1 : 0)]));
+
+  // Scenes that already have every asset (e.g. left in 'error' by a failed regenerate, or
+  // restored mid-run) have nothing to generate, so they are settled here
+  pending.forEach(s => onSceneUpdate(s.id, remaining.get(s.id) === 0 ? { status: 'ready', error: undefined } : { error: undefined }));
+
+  const totalAssets = queues.image.length + queues.audio.length;
+  let assetsCompleted = 0;
+
+  const report = (step: string) => onProgress(totalAssets > 0 ? (assetsCompleted / totalAssets) * 100 : 100, step);
+
+  const update = (id: string, changes: SceneChanges) => {
+    current.set(id, applySceneChanges(current.get(id)!, changes));
+    onSceneUpdate(id, changes);
+  };
+
+  // Status shows whichever asset is still being worked on
+  const runningStatus = (id: string): Scene['status'] => {
+    const active = running.get(id)!;
+    return active.has('image') ? 'generating_image' : active.has('audio') ? 'generating_audio' : 'pending';
+  };
+
+  const generate = async (kind: AssetKind, id: string) => {
+    const scene = current.get(id)!;
+    const label = `Scene ${scene.sequence + 1}`;
+    running.get(id)!.add(kind);
+    update(id, { status: runningStatus(id) });
+    report(kind === 'image' ? `Creating visual for ${label}` : `Synthesizing voice for ${label}`);
+
+    let changes: (latest: Scene) => Partial<Scene>;
+    let error: string | undefined;
+    try {
+      if (kind === 'image') {
+        const imageUrl = await generateSceneImage(scene, config);
+        changes = latest => addImageTakes(latest, [imageUrl], scene.visualPrompt);
+      } else {
+        const { url, voice } = await generateSceneAudio(scene, config);
+        const audioDuration = await measureAudioDuration(url);
+        changes = latest => addAudioTake(latest, { url, duration: audioDuration ?? scene.audioDuration, voice, text: scene.scriptText });
+      }
+    } catch (e: any) {
+      console.error(`${kind === 'image' ? 'Image' : 'Audio'} fail ${label}`, e);
+      error = e.message || `${kind === 'image' ? 'Image' : 'Audio'} generation failed`;
+      changes = () => ({ error });
+    }
+
+    running.get(id)!.delete(kind);
+    assetsCompleted++;
+    const left = remaining.get(id)! - 1;
+    remaining.set(id, left);
+
+    if (left > 0) {
+      update(id, latest => ({ ...changes(latest), status: runningStatus(id) }));
+    } else {
+      const status = (error || current.get(id)!.error) ? 'error' : 'ready';
+      update(id, latest => ({ ...changes(latest), status }));
+      report(`Finished ${label}`);
+    }
+  };
+
+  const worker = async (kind: AssetKind) => {
+    while (queues[kind].length > 0) {
+      await controller.checkpoint();
+      const next = queues[kind].shift();
+      if (next) await generate(kind, next.id);
+    }
+  };
+
+  const limits = getRateLimits();
+  const workers = [
+    ...Array.from({ length: limits.image.concurrency }, () => worker('image')),
+    ...Array.from({ length: limits.tts.concurrency }, () => worker('audio')),
+  ];
+
+  // Let every worker settle so in-flight requests land before we report a cancel
+  const results = await Promise.allSettled(workers);
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failure) {
+    // Cancelled: keep whatever finished, the rest stays pending for resume
+    current.forEach((scene, id) => {
+      if (remaining.get(id)! > 0) update(id, { status: 'pending' });
+    });
+    throw failure.reason;
+  }
+};
@@ -0,0 +1,214 @@
+import { ImageAspect } from "../types";
+import { AIProvider } from "./aiProvider";
+
+const SAMPLE_RATE = 24000; // Matches the real TTS output
+const WORDS_PER_SECOND = 2.5; // ~150 wpm narration
+const LATENCY_MS = 400; // Enough for progress states to be visible
+
+const IMAGE_SIZES: Record<ImageAspect, [number, number]> = {
+  [ImageAspect.SixteenNine]: [1280, 720],
+  [ImageAspect.NineSixteen]: [720, 1280],
+  [ImageAspect.OneOne]: [1024, 1024],
+};
+
+const FILLER_SENTENCES = [
+  "The story begins somewhere quiet, far from where anyone expected.",
+  "Nobody noticed the first sign, but it was there all along.",
+  "Years later, the people who were there still talk about that night.",
+  "What happened next changed everything they thought they knew.",
+  "In the end, the answer was simpler than anyone imagined.",
+];
+
+// FNV-1a, so the same input always produces the same output
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const delay = () => new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || [text]).map(s => s.trim()).filter(Boolean);
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Two sentences per scene reads like a typical storyboard split
+const groupIntoScenes = (text: string): string[] => {
+  const sentences = splitSentences(text);
+  const scenes: string[] = [];
+  for (let i = 0; i < sentences.length; i += 2) scenes.push(sentences.slice(i, i + 2).join(' '));
+  return scenes.length > 0 ? scenes : [text];
+};
+
+const describeShot = (text: string) => {
+  const shots = ['Wide establishing shot', 'Close-up', 'Over-the-shoulder shot', 'Low angle shot', 'Aerial view'];
+  return `${shots[hash(text) % shots.length]} of ${text.replace(/[.!?]+$/, '').toLowerCase()}, soft volumetric lighting, detailed, cinematic color grade`;
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Offline stand-in for every capability. Output is derived from the request text only,
+ * so the same script always yields the same scenes, images and audio lengths.
+ */
+export const mockProvider: AIProvider = {
+  generateText: async (request) => {
+    await delay();
+    const schema = request.responseSchema as any;
+
+    // Script analysis: { detectedNiche, scenes[] }
+    if (schema?.properties?.scenes) {
+      return JSON.stringify({
+        detectedNiche: 'Mock',
+        scenes: groupIntoScenes(request.prompt).map(text => ({
+          scriptText: text,
+          visualPrompt: describeShot(text),
+          estimatedDuration: Math.max(2, Math.round(countWords(text) / WORDS_PER_SECOND)),
+        })),
+      });
+    }
+
+    // Prompt refinement: { prompt }, with the requested change appended
+    if (schema?.properties?.prompt) {
+      const [, current = '', change = ''] = request.prompt.match(/CURRENT PROMPT:\n([\s\S]*?)\n\nCHANGE:\n([\s\S]*)$/) || [];
+      return JSON.stringify({ prompt: [current.trim(), change.trim()].filter(Boolean).join(', ') });
+    }
+
+    // Story prompts: string[]
+    if (schema?.type === 'array') {
+      return JSON.stringify(groupIntoScenes(request.prompt).map(describeShot));
+    }
+
+    // Free text (script writing): pick filler sentences deterministically
+    const random = seededRandom(hash(request.prompt));
+    const paragraphs = Array.from({ length: 3 }, () =>
+      Array.from({ length: 3 }, () => FILLER_SENTENCES[Math.floor(random() * FILLER_SENTENCES.length)]).join(' ')
+    );
+    return `${request.prompt.replace(/^Write a script about:\s*/, '')}.\n\n${paragraphs.join('\n\n')}`;
+  },
+
+  generateImage: async (request) => {
+    await delay();
+    const [width, height] = IMAGE_SIZES[request.aspectRatio];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available for mock images.");
+
+    const hue = hash(request.prompt) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 55%, 28%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 12%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    // A few soft shapes so Ken Burns motion is visible
+    const random = seededRandom(hash(request.prompt));
+    for (let i = 0; i < 6; i++) {
+      ctx.fillStyle = `hsla(${(hue + random() * 120) % 360}, 70%, 60%, 0.15)`;
+      ctx.beginPath();
+      ctx.arc(random() * width, random() * height, (0.1 + random() * 0.25) * Math.min(width, height), 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const fontSize = Math.round(Math.min(width, height) / 24);
+    ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = wrapText(ctx, request.prompt, width * 0.8).slice(0, 8);
+    const lineHeight = fontSize * 1.3;
+    lines.forEach((line, i) => {
+      ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * lineHeight);
+    });
+
+    ctx.font = `700 ${Math.round(fontSize * 0.6)}px Inter, sans-serif`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.fillText('MOCK IMAGE', width / 2, height - fontSize * 1.5);
+
+    return canvas.toDataURL('image/jpeg', 0.85);
+  },
+
+  // Redraws the source image and stamps the instruction on it, so each edit is visibly a new take
+  editImage: async (request) => {
+    await delay();
+    const [width, height] = IMAGE_SIZES[request.aspectRatio];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available for mock images.");
+
+    const source = new Image();
+    source.src = request.image;
+    await source.decode();
+    ctx.drawImage(source, 0, 0, width, height);
+
+    const fontSize = Math.round(Math.min(width, height) / 30);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, 0, width, fontSize * 2.2);
+    ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+    ctx.fillStyle = `hsl(${hash(request.instruction) % 360}, 80%, 75%)`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`EDIT: ${request.instruction}`.slice(0, 80), width / 2, fontSize * 1.1);
+
+    return canvas.toDataURL('image/jpeg', 0.85);
+  },
+
+  synthesizeSpeech: async (request) => {
+    await delay();
+    const words = request.text.split(/\s+/).filter(Boolean);
+    const random = seededRandom(hash(request.text));
+    const basePitch = 90 + (hash(request.voiceName) % 120);
+
+    // Lay out each word as a voiced burst, with longer gaps at punctuation
+    const segments: { start: number; length: number; pitch: number }[] = [];
+    let cursor = Math.round(0.15 * SAMPLE_RATE);
+    for (const word of words) {
+      const length = Math.round((0.12 + word.length * 0.045) * SAMPLE_RATE);
+      segments.push({ start: cursor, length, pitch: basePitch * (0.85 + random() * 0.3) });
+      const pause = /[.!?]$/.test(word) ? 0.35 : /[,;:]$/.test(word) ? 0.2 : 0.06;
+      cursor += length + Math.round(pause * SAMPLE_RATE);
+    }
+    const totalSamples = cursor + Math.round(0.2 * SAMPLE_RATE);
+
+    const pcm = new Int16Array(totalSamples);
+    for (const { start, length, pitch } of segments) {
+      for (let i = 0; i < length; i++) {
+        const t = i / SAMPLE_RATE;
+        const envelope = Math.sin(Math.PI * (i / length)); // Syllable-shaped swell
+        const voice = Math.sin(2 * Math.PI * pitch * t) + 0.5 * Math.sin(4 * Math.PI * pitch * t) + 0.25 * Math.sin(6 * Math.PI * pitch * t);
+        pcm[start + i] = Math.round(voice * envelope * 0.25 * 32767 / 1.75);
+      }
+    }
+
+    return new Uint8Array(pcm.buffer);
+  },
+};
@@ -0,0 +1,186 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+
+export interface EncoderSetup {
+  container: 'mp4' | 'webm';
+  video: VideoEncoderConfig;
+  audio: AudioEncoderConfig;
+}
+
+interface OfflineRenderOptions {
+  setup: EncoderSetup;
+  canvas: HTMLCanvasElement;
+  fps: number;
+  totalDuration: number;
+  audio: AudioBuffer; // Pre-mixed timeline audio
+  drawFrame: (time: number) => void; // Paints the canvas for the given timeline position
+  onProgress: (percent: number, status: string) => void;
+}
+
+// Common surface of both muxers
+interface ChunkSink {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): void;
+}
+
+const AUDIO_BITRATE = 192000;
+const AUDIO_CHUNK_FRAMES = 4800; // 100ms at 48kHz
+const KEYFRAME_INTERVAL_SECS = 2;
+const MAX_ENCODE_QUEUE = 8; // Frames allowed in flight before we wait for the encoder
+
+export const supportsOfflineRender = () =>
+  typeof VideoEncoder !== 'undefined' &&
+  typeof AudioEncoder !== 'undefined' &&
+  typeof VideoFrame !== 'undefined' &&
+  typeof OfflineAudioContext !== 'undefined';
+
+/**
+ * Finds a codec/container combination the browser can encode.
+ * Prefers H.264 in MP4, falling back to VP9/VP8 in WebM. Returns null if WebCodecs can't do it.
+ */
+export const pickEncoderSetup = async (
+  width: number,
+  height: number,
+  fps: number,
+  videoBitrate: number,
+  audio: { sampleRate: number; numberOfChannels: number }
+): Promise<EncoderSetup | null> => {
+  if (!supportsOfflineRender()) return null;
+
+  // High profile, level 5.1 above 1080p (4.0 otherwise)
+  const avcCodec = width * height > 1920 * 1080 ? 'avc1.640033' : 'avc1.640028';
+  const candidates: { container: EncoderSetup['container']; video: string; audio: string[] }[] = [
+    { container: 'mp4', video: avcCodec, audio: ['mp4a.40.2', 'opus'] },
+    { container: 'webm', video: 'vp09.00.51.08', audio: ['opus'] },
+    { container: 'webm', video: 'vp8', audio: ['opus'] },
+  ];
+
+  for (const candidate of candidates) {
+    const video: VideoEncoderConfig = { codec: candidate.video, width, height, bitrate: videoBitrate, framerate: fps };
+    try {
+      if (!(await VideoEncoder.isConfigSupported(video)).supported) continue;
+      for (const codec of candidate.audio) {
+        const audioConfig: AudioEncoderConfig = { codec, bitrate: AUDIO_BITRATE, ...audio };
+        if ((await AudioEncoder.isConfigSupported(audioConfig)).supported) {
+          return { container: candidate.container, video, audio: audioConfig };
+        }
+      }
+    } catch (e) {
+      console.warn("Encoder config check failed", candidate.video, e);
+    }
+  }
+  return null;
+};
+
+/**
+ * Deterministic frame-by-frame render: draws exactly fps * duration frames,
+ * encodes them with WebCodecs alongside the pre-mixed audio and muxes the result.
+ */
+export const renderOffline = async (options: OfflineRenderOptions): Promise<Blob> => {
+  const { setup, canvas, fps, totalDuration, audio, drawFrame, onProgress } = options;
+  const { width, height } = canvas;
+  const sampleRate = audio.sampleRate;
+  const numberOfChannels = audio.numberOfChannels;
+
+  let sink: ChunkSink;
+  let getBuffer: () => ArrayBuffer;
+
+  if (setup.container === 'mp4') {
+    const target = new Mp4Target();
+    sink = new Mp4Muxer({
+      target,
+      video: { codec: 'avc', width, height, frameRate: fps },
+      audio: { codec: setup.audio.codec === 'opus' ? 'opus' : 'aac', numberOfChannels, sampleRate },
+      fastStart: 'in-memory'
+    });
+    getBuffer = () => target.buffer;
+  } else {
+    const target = new WebmTarget();
+    sink = new WebmMuxer({
+      target,
+      video: { codec: setup.video.codec.startsWith('vp09') ? 'V_VP9' : 'V_VP8', width, height, frameRate: fps },
+      audio: { codec: 'A_OPUS', numberOfChannels, sampleRate }
+    });
+    getBuffer = () => target.buffer;
+  }
+
+  const encoderErrors: DOMException[] = [];
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => sink.addVideoChunk(chunk, meta),
+    error: (e) => encoderErrors.push(e)
+  });
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => sink.addAudioChunk(chunk, meta),
+    error: (e) => encoderErrors.push(e)
+  });
+  videoEncoder.configure(setup.video);
+  audioEncoder.configure(setup.audio);
+
+  // Audio is encoded in step with the video so the muxer can interleave as it goes
+  let audioCursor = 0;
+  const encodeAudioUntil = (sampleIndex: number) => {
+    const limit = Math.min(sampleIndex, audio.length);
+    while (audioCursor < limit) {
+      const frames = Math.min(AUDIO_CHUNK_FRAMES, limit - audioCursor);
+      const data = new Float32Array(frames * numberOfChannels);
+      for (let c = 0; c < numberOfChannels; c++) {
+        data.set(audio.getChannelData(c).subarray(audioCursor, audioCursor + frames), c * frames);
+      }
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels,
+        timestamp: Math.round((audioCursor / sampleRate) * 1e6),
+        data
+      });
+      audioEncoder.encode(audioData);
+      audioData.close();
+      audioCursor += frames;
+    }
+  };
+
+  const totalFrames = Math.round(totalDuration * fps);
+  const frameDuration = Math.round(1e6 / fps);
+
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      if (encoderErrors.length > 0) throw encoderErrors[0];
+
+      const time = i / fps;
+      drawFrame(time);
+
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(time * 1e6), duration: frameDuration });
+      videoEncoder.encode(frame, { keyFrame: i % (fps * KEYFRAME_INTERVAL_SECS) === 0 });
+      frame.close();
+
+      encodeAudioUntil(Math.round(((i + 1) / fps) * sampleRate));
+
+      // Backpressure: don't let frames pile up in memory faster than the encoder drains them
+      while (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(r => setTimeout(r, 1));
+      }
+
+      // Yield once per second of video so progress can render
+      if (i % fps === 0) {
+        onProgress(Math.min(99, Math.round((i / totalFrames) * 100)), `Encoding frame ${i + 1} of ${totalFrames}`);
+        await new Promise(r => setTimeout(r, 0));
+      }
+    }
+
+    encodeAudioUntil(audio.length);
+
+    onProgress(99, "Finalizing file...");
+    await videoEncoder.flush();
+    await audioEncoder.flush();
+    if (encoderErrors.length > 0) throw encoderErrors[0];
+
+    sink.finalize();
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+
+  return new Blob([getBuffer()], { type: setup.container === 'mp4' ? 'video/mp4' : 'video/webm' });
+};
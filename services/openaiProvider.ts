@@ -0,0 +1,144 @@
+import { ImageAspect, ProviderSettings } from "../types";
+import { AIProvider } from "./aiProvider";
+
+/**
+ * Non-2xx reply from an HTTP endpoint. Carries status and headers so the
+ * request scheduler can recognise 429s and honour Retry-After.
+ */
+export class ProviderHttpError extends Error {
+  status: number;
+  headers: Headers;
+
+  constructor(status: number, message: string, headers: Headers) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+const IMAGE_SIZES: Record<ImageAspect, string> = {
+  [ImageAspect.SixteenNine]: '1536x1024',
+  [ImageAspect.NineSixteen]: '1024x1536',
+  [ImageAspect.OneOne]: '1024x1024',
+};
+
+// Closest OpenAI voice for each VOICE_PROFILES entry; names not listed are sent as-is
+const VOICE_EQUIVALENTS: Record<string, string> = {
+  Puck: 'echo',
+  Kore: 'nova',
+  Fenrir: 'onyx',
+  Charon: 'ash',
+  Zephyr: 'shimmer',
+};
+
+const callEndpoint = async (settings: ProviderSettings, path: string, body: object | FormData): Promise<Response> => {
+  if (!settings.baseUrl) throw new Error("No endpoint URL configured for this provider.");
+
+  const isForm = body instanceof FormData;
+  const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}${path}`, {
+    method: 'POST',
+    headers: {
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: isForm ? body : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ProviderHttpError(response.status, `Provider request failed (${response.status}): ${detail.slice(0, 300)}`, response.headers);
+  }
+  return response;
+};
+
+/**
+ * Adapter for anything speaking the OpenAI REST dialect: OpenAI itself, proxies,
+ * and local servers (LM Studio, LocalAI, a mock) under /v1.
+ */
+export const openAICompatibleProvider: AIProvider = {
+  generateText: async (request, settings) => {
+    const content = [
+      { type: 'text', text: request.prompt },
+      ...(request.images || []).map(url => ({ type: 'image_url', image_url: { url } })),
+    ];
+
+    const response = await callEndpoint(settings, '/chat/completions', {
+      model: settings.model,
+      messages: [
+        { role: 'system', content: request.systemInstruction },
+        { role: 'user', content: request.images?.length ? content : request.prompt },
+      ],
+      ...(request.responseSchema
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } } }
+        : {}),
+    });
+
+    const json = await response.json();
+    const choice = json.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new Error("Generation blocked by the provider's content filter.");
+    }
+    if (!choice?.message?.content) throw new Error("Model returned empty response.");
+    return choice.message.content;
+  },
+
+  generateImage: async (request, settings) => {
+    let response: Response;
+    const portraits = request.characterReferences || [];
+    if (request.referenceImage || portraits.length > 0) {
+      // Style reference and character portraits go through the edits endpoint as input images
+      const images = [...(request.referenceImage ? [request.referenceImage] : []), ...portraits.map(p => p.image)];
+      const notes = [
+        request.referenceImage ? 'Match the art style, color palette and character designs of the first input image, but compose a new scene.' : '',
+        portraits.length > 0 ? `Keep ${portraits.map(p => p.name).join(', ')} consistent with their portrait input images.` : '',
+      ].filter(Boolean).join(' ');
+
+      const form = new FormData();
+      form.append('model', settings.model);
+      form.append('prompt', `${request.prompt}. ${notes}`);
+      form.append('size', IMAGE_SIZES[request.aspectRatio]);
+      for (const [i, image] of images.entries()) {
+        form.append(images.length > 1 ? 'image[]' : 'image', await (await fetch(image)).blob(), `input-${i}.png`);
+      }
+      response = await callEndpoint(settings, '/images/edits', form);
+    } else {
+      response = await callEndpoint(settings, '/images/generations', {
+        model: settings.model,
+        prompt: request.prompt,
+        size: IMAGE_SIZES[request.aspectRatio],
+        n: 1,
+      });
+    }
+
+    const image = (await response.json()).data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return image.url;
+    throw new Error("No image data found in response");
+  },
+
+  editImage: async (request, settings) => {
+    const form = new FormData();
+    form.append('model', settings.model);
+    form.append('prompt', `${request.instruction}. Change only what this asks for and keep the rest of the image as it is.`);
+    form.append('size', IMAGE_SIZES[request.aspectRatio]);
+    form.append('image', await (await fetch(request.image)).blob(), 'input.png');
+    const response = await callEndpoint(settings, '/images/edits', form);
+
+    const image = (await response.json()).data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return image.url;
+    throw new Error("No image data found in response");
+  },
+
+  synthesizeSpeech: async (request, settings) => {
+    const response = await callEndpoint(settings, '/audio/speech', {
+      model: settings.model,
+      input: request.text,
+      voice: VOICE_EQUIVALENTS[request.voiceName] || request.voiceName,
+      ...(request.style ? { instructions: request.style } : {}),
+      response_format: 'pcm', // Raw 24kHz 16-bit mono, same as Gemini
+    });
+    return new Uint8Array(await response.arrayBuffer());
+  },
+};
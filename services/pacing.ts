@@ -0,0 +1,71 @@
+import { Scene, VideoConfig } from '../types';
+import { NARRATION_WPM } from '../constants';
+import { stripSpeechMarkup, getMarkupPauseSeconds } from './speechMarkup';
+
+const TARGET_SCENE_SECONDS = 8; // Comfortable shot length for narrated video
+const MAX_SCENES = 400;
+const FIT_TOLERANCE = 0.2; // Within ±20% of the target counts as on target
+
+export type DurationFit = 'short' | 'long' | 'ok';
+
+export interface PacingPlan {
+  wordCount: number;
+  scriptSeconds: number; // Narration runtime of the script as written
+  targetSeconds: number;
+  targetWords: number; // Words needed to fill the target at narration pace
+  plannedSeconds: number; // What the storyboard should add up to
+  sceneCount: number;
+  secondsPerScene: number;
+  fit: DurationFit;
+}
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Markup pauses are real silence, so they count toward the runtime
+export const estimateNarrationSeconds = (text: string) =>
+  (countWords(stripSpeechMarkup(text)) / NARRATION_WPM) * 60 + getMarkupPauseSeconds(text);
+
+export const getDurationFit = (actualSeconds: number, targetSeconds: number): DurationFit => {
+  if (actualSeconds < targetSeconds * (1 - FIT_TOLERANCE)) return 'short';
+  if (actualSeconds > targetSeconds * (1 + FIT_TOLERANCE)) return 'long';
+  return 'ok';
+};
+
+/**
+ * Works out how many scenes the storyboard needs and how long each should run. When the
+ * script is allowed to be rewritten the plan aims at the target; otherwise it follows the
+ * narration, since the voice-over sets the real runtime.
+ */
+export const planPacing = (config: VideoConfig): PacingPlan => {
+  const wordCount = countWords(stripSpeechMarkup(config.scriptText));
+  const scriptSeconds = estimateNarrationSeconds(config.scriptText);
+  const targetSeconds = config.targetDurationMinutes * 60;
+  const plannedSeconds = config.fitScriptToDuration ? targetSeconds : Math.max(scriptSeconds, 5);
+  const sceneCount = Math.min(MAX_SCENES, Math.max(1, Math.round(plannedSeconds / TARGET_SCENE_SECONDS)));
+
+  return {
+    wordCount,
+    scriptSeconds,
+    targetSeconds,
+    targetWords: Math.round(config.targetDurationMinutes * NARRATION_WPM),
+    plannedSeconds,
+    sceneCount,
+    secondsPerScene: plannedSeconds / sceneCount,
+    fit: getDurationFit(scriptSeconds, targetSeconds),
+  };
+};
+
+// Strictly respect manualDuration if set, otherwise max of audio vs estimated
+export const getSceneDuration = (scene: Scene, audioDuration = 0) =>
+  Math.max(audioDuration, scene.manualDuration || scene.estimatedDuration || 5);
+
+export const getProjectedRuntime = (scenes: Scene[]) =>
+  scenes.reduce((acc, scene) => acc + getSceneDuration(scene, scene.audioDuration), 0);
+
+export const formatRuntime = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`;
+};
@@ -0,0 +1,128 @@
+import { VideoConfig, Scene } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+
+// Bump when the file layout changes and add a migration below
+export const PROJECT_SCHEMA_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.vidgen.json';
+
+export interface ProjectData {
+  config: VideoConfig;
+  scenes: Scene[];
+}
+
+interface ProjectFile extends ProjectData {
+  app: 'vidgen-ai-studio';
+  schemaVersion: number;
+  savedAt: string;
+}
+
+// Migrations upgrade a file from version N to N + 1
+const MIGRATIONS: Record<number, (file: any) => any> = {};
+
+/**
+ * Reads any URL (blob:, data:, http:) into a base64 data URL so it can be embedded.
+ */
+export const urlToDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read asset"));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Turns an embedded data URL back into a lightweight object URL for playback.
+ */
+export const dataUrlToObjectUrl = async (dataUrl: string): Promise<string> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return URL.createObjectURL(blob);
+};
+
+/**
+ * Serializes config, scenes and every referenced asset into a single self-contained JSON file.
+ */
+export const serializeProject = async ({ config, scenes }: ProjectData): Promise<Blob> => {
+  // Takes that are currently active are embedded once, via imageUrl/audioUrl
+  const embeddedScenes = await Promise.all(scenes.map(async (scene) => ({
+    ...scene,
+    imageUrl: scene.imageUrl ? await urlToDataUrl(scene.imageUrl) : undefined,
+    audioUrl: scene.audioUrl ? await urlToDataUrl(scene.audioUrl) : undefined,
+    imageTakes: scene.imageTakes && await Promise.all(scene.imageTakes.map(async (take) => ({
+      ...take,
+      url: take.url === scene.imageUrl ? '' : await urlToDataUrl(take.url),
+    }))),
+    audioTakes: scene.audioTakes && await Promise.all(scene.audioTakes.map(async (take) => ({
+      ...take,
+      url: take.url === scene.audioUrl ? '' : await urlToDataUrl(take.url),
+    }))),
+  })));
+
+  const file: ProjectFile = {
+    app: 'vidgen-ai-studio',
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    config,
+    scenes: embeddedScenes,
+  };
+
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+/**
+ * Brings a parsed project file up to the current schema and fills in defaults
+ * for any config fields added since it was saved.
+ */
+export const migrateProject = (raw: any): ProjectData => {
+  if (!raw || raw.app !== 'vidgen-ai-studio' || typeof raw.schemaVersion !== 'number') {
+    throw new Error("Not a VidGen project file.");
+  }
+  if (raw.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`This project was saved by a newer version of VidGen (schema ${raw.schemaVersion}). Please update the app.`);
+  }
+
+  let file = raw;
+  for (let v = file.schemaVersion; v < PROJECT_SCHEMA_VERSION; v++) {
+    file = { ...MIGRATIONS[v](file), schemaVersion: v + 1 };
+  }
+
+  const config: VideoConfig = { ...DEFAULT_CONFIG, ...file.config };
+  const scenes: Scene[] = (file.scenes || []).map((scene: Scene, i: number) => ({
+    ...scene,
+    sequence: i,
+    // Anything that was mid-generation when saved has to be re-run
+    status: scene.status === 'generating_image' || scene.status === 'generating_audio' ? 'pending' : scene.status,
+  }));
+
+  return { config, scenes };
+};
+
+/**
+ * Opens a project file, restoring embedded audio and audio takes as object URLs.
+ */
+export const parseProject = async (file: Blob): Promise<ProjectData> => {
+  let raw;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("Project file is corrupted or not valid JSON.");
+  }
+
+  const { config, scenes } = migrateProject(raw);
+  const restoredScenes = await Promise.all(scenes.map(async (scene) => {
+    const audioUrl = scene.audioUrl ? await dataUrlToObjectUrl(scene.audioUrl) : undefined;
+    return {
+      ...scene,
+      audioUrl,
+      imageTakes: scene.imageTakes?.map(take => ({ ...take, url: take.url || scene.imageUrl || '' })),
+      audioTakes: scene.audioTakes && await Promise.all(scene.audioTakes.map(async (take) => ({
+        ...take,
+        url: take.url ? await dataUrlToObjectUrl(take.url) : audioUrl || '',
+      }))),
+    };
+  }));
+
+  return { config, scenes: restoredScenes };
+};
@@ -0,0 +1,204 @@
+import { Scene, AudioTake } from '../types';
+import { ProjectData, migrateProject, urlToDataUrl, PROJECT_SCHEMA_VERSION } from './projectFile';
+
+const DB_NAME = 'vidgen-studio';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+const LAST_PROJECT_KEY = 'vidgen:lastProjectId';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  sceneCount: number;
+  thumbnail?: string; // Data URL of the first scene image
+}
+
+// Audio is stored as a Blob (IndexedDB handles binary natively); images stay data URLs.
+// The active take is not stored twice: its entry in the take list has no asset of its own.
+type StoredAudioTake = Omit<AudioTake, 'url'> & { blob?: Blob };
+type StoredScene = Omit<Scene, 'audioUrl' | 'audioTakes'> & { audioBlob?: Blob; audioTakes?: StoredAudioTake[] };
+
+interface StoredProject {
+  id: string;
+  schemaVersion: number;
+  config: ProjectData['config'];
+  scenes: StoredScene[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Failed to open project database"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+// Object URLs never change content, so each one only needs to be read once per session
+const blobCache = new Map<string, Blob>();
+
+const urlToBlob = async (url: string): Promise<Blob> => {
+  const cached = blobCache.get(url);
+  if (cached) return cached;
+  const blob = await (await fetch(url)).blob();
+  blobCache.set(url, blob);
+  return blob;
+};
+
+/**
+ * Revokes object URLs the open project no longer uses and drops their cached blobs.
+ * Anything in `keep` (the incoming project's assets) is left alone.
+ */
+export const releaseObjectUrls = (urls: Iterable<string>, keep: Set<string>) => {
+  new Set([...urls, ...blobCache.keys()]).forEach(url => {
+    if (keep.has(url) || !url.startsWith('blob:')) return;
+    URL.revokeObjectURL(url);
+    blobCache.delete(url);
+  });
+};
+
+export const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+export const deriveProjectName = ({ config }: ProjectData): string => {
+  const words = config.scriptText.trim().split(/\s+/).filter(Boolean).slice(0, 6).join(' ');
+  return words ? `${words}${config.scriptText.trim().split(/\s+/).length > 6 ? '…' : ''}` : 'Untitled Project';
+};
+
+/**
+ * Writes the full project (config, scenes, image data and audio blobs) plus its library summary.
+ */
+export const saveProject = async (id: string, data: ProjectData): Promise<void> => {
+  const scenes: StoredScene[] = await Promise.all(data.scenes.map(async ({ audioUrl, audioTakes, ...scene }) => ({
+    ...scene,
+    imageUrl: scene.imageUrl ? await urlToDataUrl(scene.imageUrl) : undefined,
+    imageTakes: scene.imageTakes && await Promise.all(scene.imageTakes.map(async (take) => ({
+      ...take,
+      url: take.url === scene.imageUrl ? '' : await urlToDataUrl(take.url),
+    }))),
+    audioBlob: audioUrl ? await urlToBlob(audioUrl) : undefined,
+    audioTakes: audioTakes && await Promise.all(audioTakes.map(async ({ url, ...take }) => ({
+      ...take,
+      blob: url === audioUrl ? undefined : await urlToBlob(url),
+    }))),
+  })));
+
+  const db = await openDb();
+  const existing = await promisify<ProjectSummary | undefined>(
+    db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).get(id)
+  );
+
+  const now = Date.now();
+  const summary: ProjectSummary = {
+    id,
+    name: deriveProjectName(data),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    sceneCount: scenes.length,
+    thumbnail: scenes.find(s => s.imageUrl)?.imageUrl,
+  };
+  const record: StoredProject = { id, schemaVersion: PROJECT_SCHEMA_VERSION, config: data.config, scenes };
+
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(record);
+  tx.objectStore(SUMMARIES_STORE).put(summary);
+  await transactionDone(tx);
+};
+
+/**
+ * Loads a stored project, recreating object URLs for its audio takes.
+ */
+export const loadProject = async (id: string): Promise<ProjectData | null> => {
+  const db = await openDb();
+  const record = await promisify<StoredProject | undefined>(
+    db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).get(id)
+  );
+  if (!record) return null;
+
+  const restoreBlob = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    blobCache.set(url, blob);
+    return url;
+  };
+
+  const { config, scenes } = migrateProject({ ...record, app: 'vidgen-ai-studio' });
+  return {
+    config,
+    scenes: scenes.map((scene) => {
+      const { audioBlob, audioTakes, ...rest } = scene as StoredScene;
+      const audioUrl = audioBlob ? restoreBlob(audioBlob) : undefined;
+      return {
+        ...rest,
+        audioUrl,
+        imageTakes: rest.imageTakes?.map(take => ({ ...take, url: take.url || rest.imageUrl || '' })),
+        audioTakes: audioTakes?.map(({ blob, ...take }) => ({ ...take, url: blob ? restoreBlob(blob) : audioUrl || '' })),
+      };
+    }),
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const summaries = await promisify<ProjectSummary[]>(
+    db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(tx);
+  if (getLastProjectId() === id) localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+/**
+ * Copies a stored project under a new id and returns that id.
+ */
+export const duplicateProject = async (id: string): Promise<string> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  const record = await promisify<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(id));
+  const summary = await promisify<ProjectSummary | undefined>(tx.objectStore(SUMMARIES_STORE).get(id));
+  if (!record || !summary) throw new Error("Project not found.");
+
+  const newId = createProjectId();
+  const now = Date.now();
+  tx.objectStore(PROJECTS_STORE).put({ ...record, id: newId });
+  tx.objectStore(SUMMARIES_STORE).put({ ...summary, id: newId, createdAt: now, updatedAt: now });
+  await transactionDone(tx);
+  return newId;
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string) => localStorage.setItem(LAST_PROJECT_KEY, id);
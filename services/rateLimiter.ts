@@ -0,0 +1,132 @@
+import { RequestKind, RateLimit } from '../types';
+import { DEFAULT_RATE_LIMITS } from '../constants';
+
+interface Lane {
+  limit: RateLimit;
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  blockedUntil: number; // Set from retry-after hints; nothing starts before this
+  queue: (() => void)[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 5000; // Used when a 429 carries no retry hint
+
+const lanes = {} as Record<RequestKind, Lane>;
+
+const getLane = (kind: RequestKind): Lane => {
+  if (!lanes[kind]) {
+    const limit = DEFAULT_RATE_LIMITS[kind];
+    lanes[kind] = { limit, tokens: limit.concurrency, lastRefill: Date.now(), active: 0, blockedUntil: 0, queue: [], timer: null };
+  }
+  return lanes[kind];
+};
+
+// Token bucket: refills at requestsPerMinute, bursts up to the concurrency limit
+const refill = (lane: Lane, now: number) => {
+  const perMs = lane.limit.requestsPerMinute / 60000;
+  lane.tokens = Math.min(lane.limit.concurrency, lane.tokens + (now - lane.lastRefill) * perMs);
+  lane.lastRefill = now;
+};
+
+const pump = (lane: Lane) => {
+  const now = Date.now();
+  refill(lane, now);
+
+  while (lane.queue.length > 0 && lane.active < lane.limit.concurrency && lane.tokens >= 1 && now >= lane.blockedUntil) {
+    lane.tokens -= 1;
+    lane.active++;
+    lane.queue.shift()!();
+  }
+
+  // Still waiting on time rather than a free slot: wake up when the next token (or block) clears
+  if (lane.queue.length > 0 && lane.active < lane.limit.concurrency && !lane.timer) {
+    const tokenWait = lane.tokens >= 1 ? 0 : (1 - lane.tokens) / (lane.limit.requestsPerMinute / 60000);
+    const wait = Math.max(tokenWait, lane.blockedUntil - now, 0);
+    lane.timer = setTimeout(() => {
+      lane.timer = null;
+      pump(lane);
+    }, Math.ceil(wait));
+  }
+};
+
+const acquire = (lane: Lane): Promise<void> =>
+  new Promise(resolve => {
+    lane.queue.push(resolve);
+    pump(lane);
+  });
+
+const release = (lane: Lane) => {
+  lane.active--;
+  pump(lane);
+};
+
+export const isRateLimitError = (error: any): boolean => {
+  // Check for various 429/Resource Exhausted error formats
+  const errorString = JSON.stringify(error);
+  return error?.status === 429 ||
+    error?.code === 429 ||
+    error?.error?.code === 429 ||
+    error?.response?.status === 429 ||
+    errorString.includes('429') ||
+    errorString.includes('RESOURCE_EXHAUSTED') ||
+    error?.message?.includes('429') ||
+    error?.message?.includes('RESOURCE_EXHAUSTED') ||
+    error?.statusText?.includes('Too Many Requests');
+};
+
+/**
+ * Pulls a retry delay out of a 429 response: a Retry-After header, a google.rpc.RetryInfo
+ * retryDelay ("33s") or the "Please retry in 12.5s" hint in the message.
+ */
+export const getRetryAfterMs = (error: any): number | undefined => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.response?.headers?.get?.('retry-after');
+  if (header && !isNaN(Number(header))) return Number(header) * 1000;
+
+  const text = `${error?.message || ''} ${JSON.stringify(error) || ''}`;
+  const match = text.match(/retryDelay\\?"\s*:\s*\\?"([\d.]+)s/) || text.match(/retry in ([\d.]+)\s*s/i);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+export const getRateLimits = (): Record<RequestKind, RateLimit> => ({
+  text: getLane('text').limit,
+  image: getLane('image').limit,
+  tts: getLane('tts').limit,
+});
+
+export const configureRateLimits = (limits: Partial<Record<RequestKind, Partial<RateLimit>>>) => {
+  (Object.keys(limits) as RequestKind[]).forEach(kind => {
+    const lane = getLane(kind);
+    lane.limit = { ...lane.limit, ...limits[kind] };
+    lane.tokens = Math.min(lane.tokens, lane.limit.concurrency);
+    pump(lane);
+  });
+};
+
+/**
+ * Runs a model request through the shared scheduler for its kind. Requests wait for a free
+ * concurrency slot and a rate token; a 429 pauses the whole lane for the server's retry hint
+ * (or an exponential backoff) before the request is queued again.
+ */
+export const scheduleRequest = async <T>(kind: RequestKind, fn: () => Promise<T>): Promise<T> => {
+  const lane = getLane(kind);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(lane);
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRateLimitError(error)) throw error;
+
+      const delay = getRetryAfterMs(error) ?? BASE_BACKOFF_MS * 2 ** attempt;
+      console.warn(`Rate limited (${kind}). Retrying in ${Math.round(delay)}ms... (${MAX_RETRIES - attempt} left)`);
+      lane.blockedUntil = Math.max(lane.blockedUntil, Date.now() + delay);
+      lane.tokens = 0;
+      lane.lastRefill = Date.now();
+    } finally {
+      release(lane);
+    }
+  }
+};
@@ -0,0 +1,103 @@
+import { Scene, VoiceDirection } from '../types';
+import { estimateNarrationSeconds } from './pacing';
+
+const createSceneId = () => `scene-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+// Keeps Scene.sequence equal to the array position after any structural change
+export const renumberScenes = (scenes: Scene[]): Scene[] =>
+  scenes.map((scene, i) => scene.sequence === i ? scene : { ...scene, sequence: i });
+
+const estimateDuration = (text: string) => Math.max(2, Math.round(estimateNarrationSeconds(text)));
+
+/**
+ * Applies text edits to a scene. Changing the narration or its voice direction marks the
+ * audio stale and changing the prompt marks the image stale, so the pipeline regenerates
+ * them; the old assets stay playable until then.
+ */
+export const editSceneText = (scene: Scene, changes: { scriptText?: string; visualPrompt?: string; voiceDirection?: VoiceDirection }): Scene => {
+  const scriptChanged = changes.scriptText !== undefined && changes.scriptText !== scene.scriptText;
+  const promptChanged = changes.visualPrompt !== undefined && changes.visualPrompt !== scene.visualPrompt;
+  const directionChanged = changes.voiceDirection !== undefined && JSON.stringify(changes.voiceDirection) !== JSON.stringify(scene.voiceDirection || {});
+  if (!scriptChanged && !promptChanged && !directionChanged) return scene;
+
+  return {
+    ...scene,
+    ...changes,
+    estimatedDuration: scriptChanged ? estimateDuration(changes.scriptText!) : scene.estimatedDuration,
+    // Speaker attribution no longer lines up with edited narration
+    dialogue: scriptChanged ? undefined : scene.dialogue,
+    audioStale: scene.audioStale || ((scriptChanged || directionChanged) && !!scene.audioUrl),
+    imageStale: scene.imageStale || (promptChanged && !!scene.imageUrl),
+  };
+};
+
+export const createBlankScene = (): Scene => ({
+  id: createSceneId(),
+  sequence: 0,
+  scriptText: '',
+  visualPrompt: '',
+  estimatedDuration: 5,
+  status: 'pending',
+});
+
+export const insertScene = (scenes: Scene[], index: number, scene: Scene = createBlankScene()): Scene[] =>
+  renumberScenes([...scenes.slice(0, index), scene, ...scenes.slice(index)]);
+
+export const deleteScene = (scenes: Scene[], id: string): Scene[] =>
+  renumberScenes(scenes.filter(s => s.id !== id));
+
+export const moveScene = (scenes: Scene[], from: number, to: number): Scene[] => {
+  if (from === to || from < 0 || from >= scenes.length) return scenes;
+  const next = [...scenes];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return renumberScenes(next);
+};
+
+/**
+ * Splits a scene's narration at a character offset. The first half keeps the image (same
+ * shot, shorter line); the second half is a new scene with the same prompt and no assets yet.
+ */
+export const splitScene = (scenes: Scene[], id: string, offset: number): Scene[] => {
+  const index = scenes.findIndex(s => s.id === id);
+  if (index === -1) return scenes;
+  const scene = scenes[index];
+  const before = scene.scriptText.slice(0, offset).trim();
+  const after = scene.scriptText.slice(offset).trim();
+  if (!before || !after) return scenes;
+
+  const first: Scene = {
+    ...editSceneText(scene, { scriptText: before }),
+    manualDuration: undefined,
+  };
+  const second: Scene = {
+    ...createBlankScene(),
+    scriptText: after,
+    visualPrompt: scene.visualPrompt,
+    characterIds: scene.characterIds,
+    voiceDirection: scene.voiceDirection,
+    estimatedDuration: estimateDuration(after),
+  };
+  return renumberScenes([...scenes.slice(0, index), first, second, ...scenes.slice(index + 1)]);
+};
+
+/**
+ * Merges a scene with the one after it. The first scene's shot and prompt are kept; the
+ * combined narration needs new audio.
+ */
+export const mergeWithNext = (scenes: Scene[], id: string): Scene[] => {
+  const index = scenes.findIndex(s => s.id === id);
+  if (index === -1 || index >= scenes.length - 1) return scenes;
+  const [first, second] = [scenes[index], scenes[index + 1]];
+
+  const scriptText = [first.scriptText, second.scriptText].map(t => t.trim()).filter(Boolean).join(' ');
+  const characterIds = Array.from(new Set([...(first.characterIds || []), ...(second.characterIds || [])]));
+  const merged: Scene = {
+    ...editSceneText(first, { scriptText }),
+    characterIds: characterIds.length > 0 ? characterIds : undefined,
+    manualDuration: first.manualDuration && second.manualDuration ? first.manualDuration + second.manualDuration : undefined,
+    // An empty first scene borrows the second's shot
+    ...(first.visualPrompt ? {} : { visualPrompt: second.visualPrompt, imageUrl: second.imageUrl, imageStale: second.imageStale, imageTakes: second.imageTakes }),
+  };
+  return renumberScenes([...scenes.slice(0, index), merged, ...scenes.slice(index + 2)]);
+};
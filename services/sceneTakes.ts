@@ -0,0 +1,59 @@
+import { Scene, ImageTake, AudioTake } from '../types';
+
+const createTakeId = () => `take-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+// Scenes generated before takes existed only have the active asset; it becomes their first take
+export const getImageTakes = (scene: Scene): ImageTake[] =>
+  scene.imageTakes ?? (scene.imageUrl ? [{ id: `${scene.id}-image`, url: scene.imageUrl, prompt: scene.visualPrompt, createdAt: 0 }] : []);
+
+export const getAudioTakes = (scene: Scene): AudioTake[] =>
+  scene.audioTakes ?? (scene.audioUrl ? [{ id: `${scene.id}-audio`, url: scene.audioUrl, duration: scene.audioDuration, voice: '', text: scene.scriptText, createdAt: 0 }] : []);
+
+const applyImageTake = (scene: Scene, take: ImageTake): Scene => ({
+  ...scene,
+  imageUrl: take.url,
+  imageStale: take.prompt !== scene.visualPrompt,
+});
+
+const applyAudioTake = (scene: Scene, take: AudioTake): Scene => ({
+  ...scene,
+  audioUrl: take.url,
+  audioDuration: take.duration,
+  audioStale: take.text !== scene.scriptText,
+});
+
+/**
+ * Adds newly generated images as takes. The first one becomes active; earlier takes are kept
+ * so the user can switch back.
+ */
+export const addImageTakes = (scene: Scene, urls: string[], prompt: string, edit?: string): Scene => {
+  if (urls.length === 0) return scene;
+  const now = Date.now();
+  const added = urls.map((url, i): ImageTake => ({ id: createTakeId(), url, prompt, edit, createdAt: now + i }));
+  return applyImageTake({ ...scene, imageTakes: [...getImageTakes(scene), ...added] }, added[0]);
+};
+
+export const addAudioTake = (scene: Scene, take: Omit<AudioTake, 'id' | 'createdAt'>): Scene => {
+  const added: AudioTake = { ...take, id: createTakeId(), createdAt: Date.now() };
+  return applyAudioTake({ ...scene, audioTakes: [...getAudioTakes(scene), added] }, added);
+};
+
+export const selectImageTake = (scene: Scene, takeId: string): Scene => {
+  const takes = getImageTakes(scene);
+  const take = takes.find(t => t.id === takeId);
+  return take ? applyImageTake({ ...scene, imageTakes: takes }, take) : scene;
+};
+
+export const selectAudioTake = (scene: Scene, takeId: string): Scene => {
+  const takes = getAudioTakes(scene);
+  const take = takes.find(t => t.id === takeId);
+  return take ? applyAudioTake({ ...scene, audioTakes: takes }, take) : scene;
+};
+
+// Every asset URL a scene holds on to: the active ones plus all takes
+export const getSceneAssetUrls = (scene: Scene): string[] => [
+  scene.imageUrl,
+  scene.audioUrl,
+  ...getImageTakes(scene).map(take => take.url),
+  ...getAudioTakes(scene).map(take => take.url),
+].filter((url): url is string => !!url);
@@ -0,0 +1,81 @@
+import { PronunciationEntry } from '../types';
+
+// Inline markup understood in narration:
+//   [pause 1.5s] / [pause 500ms] / [pause]  real silence in the audio
+//   *word*                                  emphasis
+//   {word|phonetic}                         say "phonetic" where the text reads "word"
+const PAUSE_PATTERN = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\]/gi;
+const EMPHASIS_PATTERN = /\*([^*\n]+)\*/g;
+const PHONETIC_PATTERN = /\{([^{}|]+)\|([^{}]+)\}/g;
+const DEFAULT_PAUSE_SECONDS = 0.75;
+const MAX_PAUSE_SECONDS = 10;
+
+export type SpeechSegment =
+  | { type: 'speech'; text: string; emphasis: string[] }
+  | { type: 'pause'; seconds: number };
+
+const parsePauseSeconds = (amount?: string, unit?: string) => {
+  if (!amount) return DEFAULT_PAUSE_SECONDS;
+  const seconds = unit?.toLowerCase() === 'ms' ? parseFloat(amount) / 1000 : parseFloat(amount);
+  return Math.min(MAX_PAUSE_SECONDS, Math.max(0, seconds));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word (any script) and case-insensitive. Explicit {word|phonetic} hints are left alone,
+// and longer terms go first so "New York City" wins over "New York". The respelling is
+// inserted literally, so "$" in it is never read as a replacement pattern
+const applyPronunciations = (text: string, pronunciations: PronunciationEntry[]) =>
+  [...pronunciations]
+    .filter(p => p.term.trim() && p.say.trim())
+    .sort((a, b) => b.term.length - a.term.length)
+    .reduce((acc, { term, say }) => acc.replace(new RegExp(`(?<![\\p{L}\\p{N}_{])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}_|])`, 'giu'), () => say.trim()), text);
+
+/**
+ * Turns marked-up narration into what the TTS model should actually say: pauses become
+ * their own segments, pronunciation hints and dictionary entries are substituted, and
+ * emphasised words are collected so they can be passed as direction.
+ */
+export const parseSpeechMarkup = (text: string, pronunciations: PronunciationEntry[] = []): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+
+  const pushSpeech = (raw: string) => {
+    const emphasis: string[] = [];
+    const spoken = applyPronunciations(raw, pronunciations)
+      .replace(PHONETIC_PATTERN, (_, _word, phonetic: string) => phonetic.trim())
+      .replace(EMPHASIS_PATTERN, (_, word: string) => {
+        emphasis.push(word.trim());
+        return word;
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (spoken) segments.push({ type: 'speech', text: spoken, emphasis });
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(PAUSE_PATTERN)) {
+    pushSpeech(text.slice(cursor, match.index));
+    segments.push({ type: 'pause', seconds: parsePauseSeconds(match[1], match[2]) });
+    cursor = match.index! + match[0].length;
+  }
+  pushSpeech(text.slice(cursor));
+
+  return segments;
+};
+
+/**
+ * The narration as it should be read on screen: markup removed, original spellings kept.
+ */
+export const stripSpeechMarkup = (text: string) =>
+  text
+    .replace(PAUSE_PATTERN, ' ')
+    .replace(PHONETIC_PATTERN, (_, word: string) => word)
+    .replace(EMPHASIS_PATTERN, (_, word: string) => word)
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+
+export const getMarkupPauseSeconds = (text: string) =>
+  Array.from(text.matchAll(PAUSE_PATTERN)).reduce((acc, match) => acc + parsePauseSeconds(match[1], match[2]), 0);
+
+export const hasSpeechMarkup = (text: string) =>
+  new RegExp(PAUSE_PATTERN.source, 'i').test(text) || new RegExp(EMPHASIS_PATTERN.source).test(text) || new RegExp(PHONETIC_PATTERN.source).test(text);
@@ -0,0 +1,315 @@
+import { CaptionCue, CaptionStyle, CaptionPosition, KaraokeGroup } from '../types';
+
+export interface CaptionSource {
+  scriptText: string;
+  start: number; // Scene start on the timeline (seconds)
+  end: number;
+  speechDuration?: number; // Length of the narration, if known
+}
+
+/**
+ * Splits text at sentence boundaries, keeping trailing punctuation and closing quotes.
+ */
+export const splitSentences = (text: string): string[] => {
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [text];
+  return sentences.map(s => s.trim()).filter(Boolean);
+};
+
+/**
+ * Builds caption cues for each scene. Sentence timing is proportional to character
+ * length across the scene's narration (or the whole scene when there is no audio).
+ */
+export const buildCaptionCues = (sources: CaptionSource[]): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+
+  sources.forEach(source => {
+    const sentences = splitSentences(source.scriptText || '');
+    if (sentences.length === 0) return;
+
+    const sceneLength = source.end - source.start;
+    const spoken = source.speechDuration && source.speechDuration > 0
+      ? Math.min(source.speechDuration, sceneLength)
+      : sceneLength;
+    const totalChars = sentences.reduce((acc, s) => acc + s.length, 0);
+
+    let cursor = source.start;
+    sentences.forEach(sentence => {
+      const length = (sentence.length / totalChars) * spoken;
+      cues.push({ start: cursor, end: cursor + length, text: sentence });
+      cursor += length;
+    });
+  });
+
+  return cues;
+};
+
+export const findActiveCue = (cues: CaptionCue[], time: number): CaptionCue | undefined =>
+  cues.find(c => time >= c.start && time < c.end);
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+export const cuesToSrt = (cues: CaptionCue[]): string =>
+  cues.map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+
+export const cuesToWebVtt = (cues: CaptionCue[]): string =>
+  'WEBVTT\n\n' + cues.map(cue =>
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`
+  ).join('\n');
+
+// Short-form captions show a few words at a time
+const KARAOKE_GROUP_SIZE = 4;
+
+/**
+ * Estimates when each word of a scene is spoken. With detected speech segments
+ * (seconds relative to the scene start) the words are spread over voiced time only,
+ * so silences stay caption-free; otherwise timing is proportional to character length.
+ */
+export const estimateWordTimings = (
+  text: string,
+  start: number,
+  speechDuration: number,
+  segments: { start: number; end: number }[] = []
+): CaptionCue[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0 || speechDuration <= 0) return [];
+
+  const voiced = segments.length > 0 ? segments : [{ start: 0, end: speechDuration }];
+  const totalVoiced = voiced.reduce((acc, seg) => acc + (seg.end - seg.start), 0);
+
+  // Map a position on the voiced-only clock back to real scene time
+  const voicedToReal = (v: number) => {
+    let acc = 0;
+    for (const seg of voiced) {
+      const len = seg.end - seg.start;
+      if (v <= acc + len) return seg.start + (v - acc);
+      acc += len;
+    }
+    return voiced[voiced.length - 1].end;
+  };
+  const segmentAt = (t: number) =>
+    voiced.find(seg => t >= seg.start && t <= seg.end) || voiced[voiced.length - 1];
+
+  // Count the trailing space so short words still get a visible beat
+  const weights = words.map(w => w.length + 1);
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+
+  let cursor = 0;
+  return words.map((word, i) => {
+    const v0 = (cursor / totalWeight) * totalVoiced;
+    cursor += weights[i];
+    const v1 = (cursor / totalWeight) * totalVoiced;
+
+    // Words straddling a silence snap to the segment holding their midpoint
+    const seg = segmentAt(voicedToReal((v0 + v1) / 2));
+    const wordStart = Math.max(seg.start, voicedToReal(v0));
+    const wordEnd = Math.min(seg.end, voicedToReal(v1));
+
+    return { start: start + wordStart, end: start + Math.max(wordStart, wordEnd), text: word };
+  });
+};
+
+/**
+ * Groups timed words into short on-screen phrases, breaking at sentence ends.
+ * Each group stays visible until the next one starts.
+ */
+export const buildKaraokeGroups = (words: CaptionCue[]): KaraokeGroup[] => {
+  const groups: KaraokeGroup[] = [];
+  let current: CaptionCue[] = [];
+
+  words.forEach(word => {
+    current.push(word);
+    if (current.length >= KARAOKE_GROUP_SIZE || /[.!?]["')\]]*$/.test(word.text)) {
+      groups.push({ start: current[0].start, end: word.end, words: current });
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    groups.push({ start: current[0].start, end: current[current.length - 1].end, words: current });
+  }
+
+  for (let i = 0; i < groups.length - 1; i++) {
+    // Bridge short pauses, but don't hold a phrase across a scene change gap
+    if (groups[i + 1].start - groups[i].end < 1) groups[i].end = groups[i + 1].start;
+  }
+  return groups;
+};
+
+export const findActiveGroup = (groups: KaraokeGroup[], time: number): KaraokeGroup | undefined =>
+  groups.find(g => time >= g.start && time < g.end);
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Draws a caption onto the canvas. Text that wraps past `maxLines` is paged,
+ * with pages advancing evenly over the cue's duration (`cueProgress` 0-1).
+ */
+export const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  width: number,
+  height: number,
+  style: CaptionStyle,
+  cueProgress: number
+) => {
+  const scale = Math.min(width, height) / 1080;
+  const fontPx = Math.round(style.fontSize * scale);
+  const lineHeight = fontPx * 1.3;
+  const padding = fontPx * 0.4;
+  const margin = height * 0.08;
+
+  ctx.save();
+  ctx.font = `700 ${fontPx}px ${style.fontFamily}, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const allLines = wrapLines(ctx, text, width * 0.85);
+  const maxLines = Math.max(1, style.maxLines);
+  const pageCount = Math.ceil(allLines.length / maxLines);
+  const page = Math.min(pageCount - 1, Math.floor(Math.max(0, cueProgress) * pageCount));
+  const lines = allLines.slice(page * maxLines, page * maxLines + maxLines);
+
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === CaptionPosition.Top
+    ? margin
+    : style.position === CaptionPosition.Middle
+      ? (height - blockHeight) / 2
+      : height - margin - blockHeight;
+
+  if (style.showBackground) {
+    const boxWidth = Math.max(...lines.map(l => ctx.measureText(l).width)) + padding * 2;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.beginPath();
+    ctx.roundRect((width - boxWidth) / 2, top - padding, boxWidth, blockHeight + padding * 2, fontPx * 0.25);
+    ctx.fill();
+  }
+
+  lines.forEach((line, i) => {
+    const y = top + lineHeight * (i + 0.5);
+    if (!style.showBackground) {
+      ctx.lineWidth = fontPx * 0.12;
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+      ctx.lineJoin = 'round';
+      ctx.strokeText(line, width / 2, y);
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(line, width / 2, y);
+  });
+
+  ctx.restore();
+};
+
+/**
+ * Draws a karaoke phrase with the currently spoken word highlighted and "popped".
+ */
+export const drawKaraokeCaption = (
+  ctx: CanvasRenderingContext2D,
+  group: KaraokeGroup,
+  time: number,
+  width: number,
+  height: number,
+  style: CaptionStyle
+) => {
+  const scale = Math.min(width, height) / 1080;
+  const fontPx = Math.round(style.fontSize * 1.4 * scale);
+  const lineHeight = fontPx * 1.25;
+  const margin = height * 0.12;
+
+  ctx.save();
+  ctx.font = `900 ${fontPx}px ${style.fontFamily}, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const words = group.words.map(w => w.text.toUpperCase());
+  const spaceWidth = ctx.measureText(' ').width;
+  const widths = words.map(w => ctx.measureText(w).width);
+
+  // Lay words out into centered lines
+  const lines: number[][] = [];
+  let line: number[] = [];
+  let lineWidth = 0;
+  words.forEach((_, i) => {
+    const extra = line.length > 0 ? spaceWidth + widths[i] : widths[i];
+    if (line.length > 0 && lineWidth + extra > width * 0.85) {
+      lines.push(line);
+      line = [i];
+      lineWidth = widths[i];
+    } else {
+      line.push(i);
+      lineWidth += extra;
+    }
+  });
+  if (line.length > 0) lines.push(line);
+
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === CaptionPosition.Top
+    ? margin
+    : style.position === CaptionPosition.Middle
+      ? (height - blockHeight) / 2
+      : height - margin - blockHeight;
+
+  if (style.showBackground) {
+    const padding = fontPx * 0.35;
+    const boxWidth = Math.max(...lines.map(l => l.reduce((acc, i) => acc + widths[i], 0) + spaceWidth * (l.length - 1))) + padding * 2;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.beginPath();
+    ctx.roundRect((width - boxWidth) / 2, top - padding, boxWidth, blockHeight + padding * 2, fontPx * 0.3);
+    ctx.fill();
+  }
+
+  lines.forEach((indices, row) => {
+    const rowWidth = indices.reduce((acc, i) => acc + widths[i], 0) + spaceWidth * (indices.length - 1);
+    let x = (width - rowWidth) / 2;
+    const y = top + lineHeight * (row + 0.5);
+
+    indices.forEach(i => {
+      const word = group.words[i];
+      const isActive = time >= word.start && time < word.end;
+      const cx = x + widths[i] / 2;
+
+      // Quick pop over the first 200ms of the word
+      const popT = Math.min(1, (time - word.start) / 0.2);
+      const pop = isActive ? 1 + 0.2 * Math.sin(Math.PI * popT) : 1;
+
+      ctx.save();
+      ctx.translate(cx, y);
+      ctx.scale(pop, pop);
+      ctx.lineWidth = fontPx * 0.14;
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+      ctx.lineJoin = 'round';
+      ctx.strokeText(words[i], 0, 0);
+      ctx.fillStyle = isActive ? style.highlightColor : '#ffffff';
+      ctx.fillText(words[i], 0, 0);
+      ctx.restore();
+
+      x += widths[i] + spaceWidth;
+    });
+  });
+
+  ctx.restore();
+};
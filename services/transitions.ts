@@ -0,0 +1,154 @@
+import { TransitionType } from '../types';
+
+export interface TimelineSlot {
+  start: number;
+  end: number;
+}
+
+export interface FrameLayers {
+  // Scene that is visible underneath (outgoing scene during a transition)
+  index: number;
+  // Scene being revealed on top, only set while a transition is running
+  nextIndex: number | null;
+  // Transition progress 0-1 (0 = only `index` visible, 1 = only `nextIndex` visible)
+  progress: number;
+}
+
+/**
+ * Resolves which scenes are visible at a given timeline position.
+ * Transitions straddle the cut: they begin half an overlap before the next scene starts
+ * and finish half an overlap after, so scene timings (and audio sync) are untouched.
+ */
+export const getFrameLayers = (
+  slots: TimelineSlot[],
+  time: number,
+  type: TransitionType,
+  overlap: number
+): FrameLayers => {
+  let index = slots.findIndex(s => time >= s.start && time < s.end);
+  if (index === -1) index = time < 0 ? 0 : slots.length - 1;
+
+  if (type === TransitionType.None || overlap <= 0 || slots.length < 2) {
+    return { index, nextIndex: null, progress: 0 };
+  }
+
+  // Half-overlap can never exceed half of either neighbouring scene
+  const halfFor = (a: number, b: number) => {
+    const lenA = slots[a].end - slots[a].start;
+    const lenB = slots[b].end - slots[b].start;
+    return Math.min(overlap / 2, lenA / 2, lenB / 2);
+  };
+
+  const slot = slots[index];
+
+  // Tail of the current scene -> transition into the next one
+  if (index < slots.length - 1) {
+    const half = halfFor(index, index + 1);
+    if (half > 0 && time >= slot.end - half) {
+      return { index, nextIndex: index + 1, progress: (time - (slot.end - half)) / (half * 2) };
+    }
+  }
+
+  // Head of the current scene -> still finishing the transition from the previous one
+  if (index > 0) {
+    const half = halfFor(index - 1, index);
+    if (half > 0 && time < slot.start + half) {
+      return { index: index - 1, nextIndex: index, progress: (time - (slot.start - half)) / (half * 2) };
+    }
+  }
+
+  return { index, nextIndex: null, progress: 0 };
+};
+
+/**
+ * Draws an image covering the canvas with a subtle Ken Burns zoom.
+ */
+export const drawKenBurns = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  width: number,
+  height: number,
+  sceneProgress: number
+) => {
+  const scale = 1 + (0.05 * Math.min(1, Math.max(0, sceneProgress))); // Subtle zoom 5%
+
+  const imgAspect = img.width / img.height;
+  const canvasAspect = width / height;
+
+  let drawWidth, drawHeight;
+  if (imgAspect > canvasAspect) {
+    drawHeight = height * scale;
+    drawWidth = height * imgAspect * scale;
+  } else {
+    drawWidth = width * scale;
+    drawHeight = (width / imgAspect) * scale;
+  }
+
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const DISSOLVE_COLUMNS = 32;
+
+// Cheap deterministic hash so the dissolve pattern is identical in preview and export
+const cellThreshold = (x: number, y: number) => {
+  const n = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453;
+  return n - Math.floor(n);
+};
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Composites two scene layers for a transition frame.
+ * `drawFrom` and `drawTo` must paint the full canvas for the outgoing/incoming scene.
+ */
+export const drawTransition = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  type: TransitionType,
+  progress: number,
+  drawFrom: () => void,
+  drawTo: () => void
+) => {
+  const p = Math.min(1, Math.max(0, progress));
+
+  drawFrom();
+
+  switch (type) {
+    case TransitionType.Fade: {
+      ctx.save();
+      ctx.globalAlpha = easeInOut(p);
+      drawTo();
+      ctx.restore();
+      break;
+    }
+    case TransitionType.Dissolve: {
+      const cell = width / DISSOLVE_COLUMNS;
+      const rows = Math.ceil(height / cell);
+      ctx.save();
+      ctx.beginPath();
+      for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < DISSOLVE_COLUMNS; x++) {
+          if (cellThreshold(x, y) < p) {
+            ctx.rect(x * cell, y * cell, cell + 0.5, cell + 0.5);
+          }
+        }
+      }
+      ctx.clip();
+      drawTo();
+      ctx.restore();
+      break;
+    }
+    case TransitionType.Wipe: {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, width * easeInOut(p), height);
+      ctx.clip();
+      drawTo();
+      ctx.restore();
+      break;
+    }
+    default:
+      if (p >= 0.5) drawTo();
+  }
+};
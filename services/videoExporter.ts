@@ -1,17 +1,43 @@
-import { Scene, ImageAspect, ExportFormat } from '../types';
+import { Scene, ImageAspect, ExportFormat, TransitionType, CaptionStyle, CaptionMode, BackgroundMusic, MusicSettings } from '../types';
+import { getFrameLayers, drawKenBurns, drawTransition } from './transitions';
+import { buildCaptionCues, findActiveCue, drawCaption, cuesToSrt, cuesToWebVtt, estimateWordTimings, buildKaraokeGroups, findActiveGroup, drawKaraokeCaption } from './subtitles';
+import { detectSpeechSegments } from './audioUtils';
+import { getSpeechRegions, loadMusicBuffer, scheduleMusicBed, mixTimelineAudio, createLimiter, MIX_SAMPLE_RATE, SpeechClip } from './audioMix';
+import { pickEncoderSetup, renderOffline } from './offlineRenderer';
+import { getSceneDuration } from './pacing';
+import { stripSpeechMarkup } from './speechMarkup';
+import { encodeWav, encodeMp3 } from './audioEncoder';
 
 interface ExportOptions {
   aspectRatio: ImageAspect;
   format: ExportFormat;
+  transitionType: TransitionType;
+  transitionDuration: number; // Overlap in seconds between adjacent scenes
+  captions?: CaptionStyle; // Burned-in captions (only drawn when enabled)
+  backgroundMusic?: BackgroundMusic | null;
+  music?: MusicSettings;
+  limiter?: boolean; // Limit the final mix so narration + music never clip
   onProgress: (percent: number, status: string) => void;
 }
 
+const EXPORT_FPS = 30;
+
+const VIDEO_BITRATES = {
+  [ExportFormat.Video720p]: 2500000,
+  [ExportFormat.Video1080p]: 5000000,
+  [ExportFormat.Video2K]: 8000000,
+  [ExportFormat.Video4K]: 15000000,
+};
+
 export const exportVideo = async (scenes: Scene[], options: ExportOptions): Promise<Blob> => {
-  const { aspectRatio, format, onProgress } = options;
+  const { aspectRatio, format, transitionType, transitionDuration, captions, backgroundMusic, music, limiter, onProgress } = options;
 
-  // 0. Handle Audio Only Export
-  if (format === ExportFormat.AudioOnly) {
-     return exportAudioOnly(scenes, onProgress);
+  // 0. Handle Audio Only / Subtitle Export
+  if (format === ExportFormat.AudioWav || format === ExportFormat.AudioMp3) {
+     return exportAudioOnly(scenes, format, options);
+  }
+  if (format === ExportFormat.SubtitlesSrt || format === ExportFormat.SubtitlesVtt) {
+     return exportSubtitles(scenes, format, onProgress);
   }
 
   // 1. Determine Resolution based on Aspect Ratio and Format
@@ -56,7 +82,6 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
   ctx.fillRect(0, 0, width, height);
 
   const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  const dest = audioCtx.createMediaStreamDestination();
   
   // 3. Pre-load Assets
   onProgress(0, "Loading assets...");
@@ -85,12 +110,13 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
     }
 
     // Determine Final Duration
-    // Strictly respect manualDuration if set, otherwise max of audio vs estimated
-    const finalDuration = Math.max(audioBuffer?.duration || 0, scene.manualDuration || scene.estimatedDuration || 5);
+    const finalDuration = getSceneDuration(scene, audioBuffer?.duration);
 
     return { ...scene, img, audioBuffer, finalDuration };
   }));
 
+  const musicBuffer = await loadBackgroundMusic(audioCtx, backgroundMusic);
+
   // Calculate Timeline
   let totalDuration = 0;
   const timelineScenes = loadedScenes.map(s => {
@@ -98,9 +124,103 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
     totalDuration += s.finalDuration;
     return { ...s, startTime: start, endTime: totalDuration };
   });
+  const timelineSlots = timelineScenes.map(s => ({ start: s.startTime, end: s.endTime }));
+
+  const isKaraoke = captions?.enabled && captions.mode === CaptionMode.Karaoke;
+
+  const captionCues = captions?.enabled && !isKaraoke
+    ? buildCaptionCues(timelineScenes.map(s => ({
+        scriptText: stripSpeechMarkup(s.scriptText),
+        start: s.startTime,
+        end: s.endTime,
+        speechDuration: s.audioBuffer?.duration
+      })))
+    : [];
+
+  // Word timing: silence analysis of the narration, falling back to proportional timing
+  const karaokeGroups = isKaraoke
+    ? buildKaraokeGroups(timelineScenes.flatMap(s => estimateWordTimings(
+        stripSpeechMarkup(s.scriptText),
+        s.startTime,
+        s.audioBuffer?.duration || s.finalDuration,
+        s.audioBuffer ? detectSpeechSegments(s.audioBuffer) : []
+      )))
+    : [];
+
+  // 4. Frame Renderer (shared by the offline and realtime paths)
+  const drawFrame = (elapsedSecs: number) => {
+    // Resolve visible scene(s), including any transition overlap
+    const layers = getFrameLayers(
+      timelineSlots,
+      elapsedSecs,
+      transitionType,
+      transitionDuration
+    );
+    const currentScene = timelineScenes[layers.index];
+
+    const drawScene = (scene: typeof currentScene) => {
+        const sceneProgress = (elapsedSecs - scene.startTime) / scene.finalDuration;
+        drawKenBurns(ctx, scene.img, width, height, sceneProgress);
+    };
+
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+
+    if (currentScene && layers.nextIndex !== null) {
+        const nextScene = timelineScenes[layers.nextIndex];
+        drawTransition(ctx, width, height, transitionType, layers.progress, () => drawScene(currentScene), () => drawScene(nextScene));
+    } else if (currentScene) {
+        drawScene(currentScene);
+    }
 
-  // 4. Setup MediaRecorder
-  const canvasStream = canvas.captureStream(30); // Request 30 FPS stream
+    // Burned-in Captions
+    const activeGroup = isKaraoke ? findActiveGroup(karaokeGroups, elapsedSecs) : undefined;
+    const activeCue = captions?.enabled && !isKaraoke ? findActiveCue(captionCues, elapsedSecs) : undefined;
+    if (captions && activeGroup) {
+        drawKaraokeCaption(ctx, activeGroup, elapsedSecs, width, height, captions);
+    } else if (captions && activeCue) {
+        const cueProgress = (elapsedSecs - activeCue.start) / (activeCue.end - activeCue.start);
+        drawCaption(ctx, activeCue.text, width, height, captions, cueProgress);
+    }
+  };
+
+  const videoBitrate = VIDEO_BITRATES[format as keyof typeof VIDEO_BITRATES] || 5000000;
+  const speechClips: SpeechClip[] = timelineScenes.map(s => ({ start: s.startTime, buffer: s.audioBuffer }));
+
+  // 5. Offline Render (WebCodecs): faster than realtime, exactly fps * duration frames
+  const encoderSetup = await pickEncoderSetup(width, height, EXPORT_FPS, videoBitrate, { sampleRate: MIX_SAMPLE_RATE, numberOfChannels: 2 });
+  // Encoders can pass the config check and still fail to configure or die mid-encode
+  // (common with 4K on some GPUs), so any failure here falls back to realtime capture
+  if (encoderSetup) {
+    try {
+      onProgress(0, "Mixing audio...");
+      const mixedAudio = await mixTimelineAudio(
+        speechClips,
+        totalDuration,
+        musicBuffer && music ? { buffer: musicBuffer, settings: music } : null,
+        limiter
+      );
+      const blob = await renderOffline({
+        setup: encoderSetup,
+        canvas,
+        fps: EXPORT_FPS,
+        totalDuration,
+        audio: mixedAudio,
+        drawFrame,
+        onProgress
+      });
+      audioCtx.close();
+      return blob;
+    } catch (e) {
+      console.warn("Offline render failed, falling back to realtime capture", e);
+      onProgress(0, "Retrying with realtime capture...");
+    }
+  }
+
+  // 6. Realtime Fallback: MediaRecorder capture when WebCodecs is missing or failed
+  const dest = audioCtx.createMediaStreamDestination();
+  const output = limiter ? createLimiter(audioCtx, dest) : dest;
+  const canvasStream = canvas.captureStream(EXPORT_FPS);
   const combinedStream = new MediaStream([
     ...canvasStream.getVideoTracks(),
     ...dest.stream.getAudioTracks()
@@ -120,16 +240,9 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
       else if (MediaRecorder.isTypeSupported('video/webm')) selectedMimeType = 'video/webm';
   }
 
-  const bitrates = {
-      [ExportFormat.Video720p]: 2500000,
-      [ExportFormat.Video1080p]: 5000000,
-      [ExportFormat.Video2K]: 8000000,
-      [ExportFormat.Video4K]: 15000000,
-  };
-
   const recorder = new MediaRecorder(combinedStream, {
     mimeType: selectedMimeType,
-    videoBitsPerSecond: bitrates[format as keyof typeof bitrates] || 5000000
+    videoBitsPerSecond: videoBitrate
   });
 
   const chunks: Blob[] = [];
@@ -152,7 +265,7 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
 
     recorder.onerror = (e) => reject(e);
 
-    // 5. Pre-schedule ALL Audio
+    // Pre-schedule ALL Audio
     // We schedule audio on the AudioContext timeline to ensure perfect sync and no gaps.
     // The visual loop will just follow the clock.
     await audioCtx.resume(); // Ensure context is running
@@ -162,14 +275,18 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
       if (scene.audioBuffer) {
         const source = audioCtx.createBufferSource();
         source.buffer = scene.audioBuffer;
-        source.connect(dest);
+        source.connect(output);
         source.start(audioStartTime + scene.startTime);
       }
     });
 
+    if (musicBuffer && music) {
+      scheduleMusicBed(audioCtx, output, musicBuffer, getSpeechRegions(speechClips), audioStartTime, totalDuration, music);
+    }
+
     recorder.start();
     
-    // 6. Visual Rendering Loop
+    // Visual Rendering Loop
     // We use audioCtx.currentTime as the MASTER CLOCK to ensure A/V sync.
     // Performance.now() can drift from AudioContext time.
     
@@ -186,39 +303,7 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
              break;
          }
 
-         // Find active scene
-         const currentScene = timelineScenes.find(s => elapsedSecs >= s.startTime && elapsedSecs < s.endTime);
-         
-         if (currentScene) {
-             const sceneProgress = (elapsedSecs - currentScene.startTime) / currentScene.finalDuration;
-             
-             // Ken Burns Effect
-             const scale = 1 + (0.05 * sceneProgress); // Subtle zoom 5%
-             
-             const imgAspect = currentScene.img.width / currentScene.img.height;
-             const canvasAspect = width / height;
-             
-             let drawWidth, drawHeight, offsetX, offsetY;
-
-             if (imgAspect > canvasAspect) {
-                 drawHeight = height * scale;
-                 drawWidth = height * imgAspect * scale;
-                 offsetY = (height - drawHeight) / 2;
-                 offsetX = (width - drawWidth) / 2;
-             } else {
-                 drawWidth = width * scale;
-                 drawHeight = (width / imgAspect) * scale;
-                 offsetX = (width - drawWidth) / 2;
-                 offsetY = (height - drawHeight) / 2;
-             }
-
-             ctx.clearRect(0, 0, width, height);
-             ctx.drawImage(currentScene.img, offsetX, offsetY, drawWidth, drawHeight);
-         } else {
-             // Safe fallback
-             ctx.fillStyle = 'black';
-             ctx.fillRect(0, 0, width, height);
-         }
+         drawFrame(elapsedSecs);
 
          // Update Progress
          const progressPercent = Math.min(99, Math.round((elapsedSecs / totalDuration) * 100));
@@ -235,74 +320,97 @@ export const exportVideo = async (scenes: Scene[], options: ExportOptions): Prom
   });
 };
 
-const exportAudioOnly = async (scenes: Scene[], onProgress: (percent: number, status: string) => void): Promise<Blob> => {
+const loadBackgroundMusic = async (audioCtx: BaseAudioContext, backgroundMusic?: BackgroundMusic | null): Promise<AudioBuffer | null> => {
+    if (!backgroundMusic) return null;
+    try {
+        return await loadMusicBuffer(audioCtx, backgroundMusic.dataUrl);
+    } catch (e) {
+        console.warn("Failed to load background music", backgroundMusic.name);
+        return null;
+    }
+};
+
+/**
+ * Mixes narration (and the music bed) offline into one buffer and encodes it straight to
+ * WAV or MP3, so the file is sample-accurate and ready in seconds rather than in real time.
+ */
+const exportAudioOnly = async (scenes: Scene[], format: ExportFormat.AudioWav | ExportFormat.AudioMp3, options: ExportOptions): Promise<Blob> => {
+    const { backgroundMusic, music, limiter, onProgress } = options;
     const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const dest = audioCtx.createMediaStreamDestination();
-    
-    // Load Audio Buffers
+
     onProgress(10, "Loading audio tracks...");
-    const loadedAudios = await Promise.all(scenes.map(async (scene) => {
+    let loadedAudios: (AudioBuffer | null)[];
+    let musicBuffer: AudioBuffer | null;
+    try {
+        loadedAudios = await Promise.all(scenes.map(async (scene) => {
+            if (scene.audioUrl) {
+                try {
+                    const response = await fetch(scene.audioUrl);
+                    const arrayBuffer = await response.arrayBuffer();
+                    return await audioCtx.decodeAudioData(arrayBuffer);
+                } catch (e) { return null; }
+            }
+            return null;
+        }));
+        musicBuffer = await loadBackgroundMusic(audioCtx, backgroundMusic);
+    } finally {
+        audioCtx.close();
+    }
+
+    // Scenes play back to back; scenes without narration hold their estimated length as silence
+    let totalDuration = 0;
+    const speechClips: SpeechClip[] = loadedAudios.map((buffer, i) => {
+        const clip = { start: totalDuration, buffer };
+        totalDuration += getSceneDuration(scenes[i], buffer?.duration);
+        return clip;
+    });
+
+    onProgress(30, "Mixing audio...");
+    const mixed = await mixTimelineAudio(
+        speechClips,
+        totalDuration,
+        musicBuffer && music ? { buffer: musicBuffer, settings: music } : null,
+        limiter
+    );
+
+    if (format === ExportFormat.AudioWav) {
+        onProgress(90, "Encoding WAV...");
+        return encodeWav(mixed);
+    }
+    return encodeMp3(mixed, (fraction) => onProgress(40 + Math.round(fraction * 59), "Encoding MP3..."));
+};
+
+const exportSubtitles = async (
+    scenes: Scene[],
+    format: ExportFormat.SubtitlesSrt | ExportFormat.SubtitlesVtt,
+    onProgress: (percent: number, status: string) => void
+): Promise<Blob> => {
+    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+
+    // Decode narration so cue times match the video timeline exactly
+    onProgress(10, "Measuring narration...");
+    const audioDurations = await Promise.all(scenes.map(async (scene) => {
         if (scene.audioUrl) {
             try {
                 const response = await fetch(scene.audioUrl);
                 const arrayBuffer = await response.arrayBuffer();
-                return await audioCtx.decodeAudioData(arrayBuffer);
-            } catch (e) { return null; }
+                return (await audioCtx.decodeAudioData(arrayBuffer)).duration;
+            } catch (e) { return scene.audioDuration; }
         }
-        return null;
+        return undefined;
+    }));
+    audioCtx.close();
+
+    onProgress(80, "Building captions...");
+    let totalDuration = 0;
+    const cues = buildCaptionCues(scenes.map((scene, i) => {
+        const start = totalDuration;
+        totalDuration += getSceneDuration(scene, audioDurations[i]);
+        return { scriptText: stripSpeechMarkup(scene.scriptText), start, end: totalDuration, speechDuration: audioDurations[i] };
     }));
 
-    // Setup Recorder
-    const mimeTypes = ['audio/mp4', 'audio/aac', 'audio/webm', 'audio/ogg'];
-    const selectedMime = mimeTypes.find(type => MediaRecorder.isTypeSupported(type)) || '';
-    
-    const recorder = new MediaRecorder(dest.stream, { mimeType: selectedMime });
-    const chunks: Blob[] = [];
-    recorder.ondataavailable = (e) => chunks.push(e.data);
-
-    return new Promise(async (resolve, reject) => {
-        recorder.onstop = () => {
-            const blob = new Blob(chunks, { type: selectedMime || 'audio/mp4' });
-            audioCtx.close();
-            if (blob.size === 0) reject(new Error("Audio export failed: Empty file"));
-            else resolve(blob);
-        };
-
-        recorder.start();
-
-        onProgress(30, "Mixing audio...");
-        await audioCtx.resume();
-        
-        // Schedule Audio
-        const startTime = audioCtx.currentTime + 0.1;
-        let totalDuration = 0;
-        
-        loadedAudios.forEach((buffer, i) => {
-            const scene = scenes[i];
-            const sceneDuration = Math.max(buffer?.duration || 0, scene.manualDuration || scene.estimatedDuration || 5);
-            
-            if (buffer) {
-                const source = audioCtx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(dest);
-                source.start(startTime + totalDuration);
-            }
-            totalDuration += sceneDuration;
-        });
-
-        // Loop check instead of setTimeout to match logic
-        const loop = async () => {
-             while(true) {
-                 const elapsed = audioCtx.currentTime - startTime;
-                 if (elapsed >= totalDuration) break;
-                 
-                 const p = Math.min(99, Math.round((elapsed / totalDuration) * 100));
-                 onProgress(p, "Recording Audio...");
-                 await new Promise(r => setTimeout(r, 500));
-             }
-             recorder.stop();
-        };
-        
-        loop();
-    });
-};
\ No newline at end of file
+    onProgress(100, "Done");
+    return format === ExportFormat.SubtitlesSrt
+        ? new Blob([cuesToSrt(cues)], { type: 'application/x-subrip' })
+        : new Blob([cuesToWebVtt(cues)], { type: 'text/vtt' });
+};
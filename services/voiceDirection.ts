@@ -0,0 +1,43 @@
+import { Scene, VideoConfig, VoiceDirection, SpeechPace, PauseStyle } from '../types';
+import { NICHE_VOICE_DIRECTION } from '../constants';
+
+const PACE_PHRASES: Record<SpeechPace, string> = {
+  [SpeechPace.Slow]: 'slowly and unhurriedly',
+  [SpeechPace.Normal]: '',
+  [SpeechPace.Fast]: 'briskly, at a quick pace',
+};
+
+const PAUSE_PHRASES: Record<PauseStyle, string> = {
+  [PauseStyle.Tight]: 'keeping pauses short',
+  [PauseStyle.Natural]: '',
+  [PauseStyle.Long]: 'leaving long, deliberate pauses between sentences',
+};
+
+// Empty strings count as unset so a cleared field falls back instead of erasing the default
+const pickDefined = (direction?: VoiceDirection): VoiceDirection =>
+  Object.fromEntries(Object.entries(direction || {}).filter(([, value]) => value !== undefined && value !== '')) as VoiceDirection;
+
+/**
+ * The direction a scene is actually read with: its own override, then the project
+ * default, then the niche preset.
+ */
+export const resolveVoiceDirection = (config: VideoConfig, scene?: Scene): Required<VoiceDirection> => ({
+  ...NICHE_VOICE_DIRECTION[config.niche],
+  ...pickDefined(config.voiceDirection),
+  ...pickDefined(scene?.voiceDirection),
+});
+
+/**
+ * Turns a direction into a style instruction for the TTS model, or undefined when it
+ * asks for nothing beyond a neutral read.
+ */
+export const describeVoiceDirection = (direction: Required<VoiceDirection>): string | undefined => {
+  const parts = [
+    PACE_PHRASES[direction.pace],
+    direction.tone.trim() ? `in a ${direction.tone.trim()} tone` : '',
+    PAUSE_PHRASES[direction.pauses],
+  ].filter(Boolean);
+  return parts.length > 0 ? `Read the following ${parts.join(', ')}` : undefined;
+};
+
+export const hasVoiceDirection = (direction?: VoiceDirection) => Object.keys(pickDefined(direction)).length > 0;
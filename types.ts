@@ -46,7 +46,68 @@ export enum ExportFormat {
   Video1080p = 'video_1080p',
   Video2K = 'video_2k',
   Video4K = 'video_4k',
-  AudioOnly = 'audio_only'
+  AudioWav = 'audio_wav',
+  AudioMp3 = 'audio_mp3',
+  SubtitlesSrt = 'subtitles_srt',
+  SubtitlesVtt = 'subtitles_vtt'
+}
+
+export enum CaptionPosition {
+  Top = 'top',
+  Middle = 'middle',
+  Bottom = 'bottom'
+}
+
+export enum CaptionMode {
+  Sentence = 'sentence',
+  Karaoke = 'karaoke' // Word-by-word highlight for vertical shorts
+}
+
+export interface CaptionStyle {
+  enabled: boolean; // Burn captions into exported video
+  mode: CaptionMode;
+  highlightColor: string; // Active word color in karaoke mode
+  fontFamily: string;
+  fontSize: number; // Pixels at 1080p, scaled to the export resolution
+  position: CaptionPosition;
+  showBackground: boolean;
+  maxLines: number;
+}
+
+export interface CaptionCue {
+  start: number; // Seconds on the export timeline
+  end: number;
+  text: string;
+}
+
+export interface KaraokeGroup {
+  start: number;
+  end: number;
+  words: CaptionCue[];
+}
+
+export enum SpeechPace {
+  Slow = 'slow',
+  Normal = 'normal',
+  Fast = 'fast'
+}
+
+export enum PauseStyle {
+  Tight = 'tight',
+  Natural = 'natural',
+  Long = 'long'
+}
+
+// Delivery instructions for the TTS model. Unset fields inherit: scene → project → niche.
+export interface VoiceDirection {
+  pace?: SpeechPace;
+  tone?: string; // Free text, e.g. "warm", "whispered", "urgent"
+  pauses?: PauseStyle;
+}
+
+export interface PronunciationEntry {
+  term: string; // As written in the script
+  say: string; // Phonetic respelling sent to the TTS model
 }
 
 export interface VoiceProfile {
@@ -55,35 +116,129 @@ export interface VoiceProfile {
   style: string;
 }
 
+export interface BackgroundMusic {
+  name: string; // Original file name
+  dataUrl: string; // Base64 data URL of the uploaded track
+}
+
+export interface MusicSettings {
+  volume: number; // 0-1 bed level when nobody is speaking
+  duckLevel: number; // 0-1 multiplier applied to the bed under narration
+  fadeIn: number; // Seconds
+  fadeOut: number; // Seconds
+  loop: boolean; // Loop short tracks to fill the timeline (otherwise play once)
+}
+
+export interface AudioProcessingSettings {
+  trimSilence: boolean; // Trim silence around each synthesized chunk
+  paddingMs: number; // Silence kept on either side after trimming
+  normalize: boolean; // Bring every scene's narration to targetLufs
+  targetLufs: number; // Integrated loudness, e.g. -16 for web video
+  limiter: boolean; // Brick-wall limiter on the final export mix
+}
+
+export interface Character {
+  id: string;
+  name: string;
+  appearance: string; // Face, build, age, hair
+  wardrobe: string;
+  referenceImage?: string | null; // Base64 portrait sent with scenes this character appears in
+  voiceName?: string; // VOICE_PROFILES entry for this character's lines; unset uses the narrator
+}
+
 export interface VideoConfig {
   scriptText: string;
   characterConsistency?: string; // New field for consistency notes
+  characters: Character[]; // Character bible; tagged per scene during analysis
   niche: Niche;
   targetDurationMinutes: number;
+  fitScriptToDuration: boolean; // Let analysis expand or condense narration to hit the target
   voiceProfile: VoiceProfile;
+  voiceDirection: VoiceDirection; // Project default; empty fields follow the niche
+  pronunciations: PronunciationEntry[]; // Applied to every narration before synthesis
   visualStyle: VisualStyle;
   imageAspect: ImageAspect;
   safetyMode: SafetyMode;
   transitionType: TransitionType;
+  transitionDuration: number; // Overlap between scenes in seconds
+  captions: CaptionStyle;
+  backgroundMusic?: BackgroundMusic | null;
+  music: MusicSettings;
+  audioProcessing: AudioProcessingSettings;
   referenceImage?: string | null; // Base64 string for reference style
 }
 
+export interface DialogueLine {
+  speaker: string; // Character id, or NARRATOR_SPEAKER for narration
+  text: string;
+}
+
+export interface ImageTake {
+  id: string;
+  url: string;
+  prompt: string; // visualPrompt the take was generated from
+  edit?: string; // Instruction applied to the previous image, for edited takes
+  createdAt: number;
+}
+
+export interface AudioTake {
+  id: string;
+  url: string;
+  duration?: number;
+  voice: string; // Voice(s) the take was read in
+  text: string; // scriptText the take was generated from
+  createdAt: number;
+}
+
 export interface Scene {
   id: string;
   sequence: number;
   scriptText: string;
   visualPrompt: string;
+  characterIds?: string[]; // Characters from the bible that appear in this scene
+  voiceDirection?: VoiceDirection; // Per-scene override of the project direction
+  dialogue?: DialogueLine[]; // scriptText attributed line by line to speakers; dropped when scriptText is edited
   estimatedDuration: number;
   manualDuration?: number; // User override
   imageUrl?: string; // Object URL or Base64
   audioUrl?: string; // Object URL (WAV)
   audioDuration?: number;
+  imageStale?: boolean; // visualPrompt changed since the image was generated
+  audioStale?: boolean; // scriptText changed since the audio was generated
+  imageTakes?: ImageTake[]; // Every generated image; imageUrl is the active one
+  audioTakes?: AudioTake[]; // Every generated voice-over; audioUrl is the active one
   status: 'pending' | 'generating_image' | 'generating_audio' | 'ready' | 'error';
   error?: string;
 }
 
+export type RequestKind = 'text' | 'image' | 'tts';
+
+export interface RateLimit {
+  concurrency: number; // Requests allowed in flight at once
+  requestsPerMinute: number;
+}
+
+export enum ProviderType {
+  Gemini = 'gemini',
+  OpenAICompatible = 'openai',
+  Mock = 'mock' // Offline placeholder output, no network
+}
+
+export interface ProviderSettings {
+  type: ProviderType;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoints, e.g. http://localhost:8080/v1
+  apiKey?: string; // Falls back to the build-time Gemini key when empty
+  voice?: string; // Overrides the narrator voice name (speech only)
+}
+
+export interface AISettings {
+  providers: Record<RequestKind, ProviderSettings>;
+  rateLimits: Record<RequestKind, RateLimit>;
+}
+
 export interface GenerationState {
-  status: 'idle' | 'analyzing' | 'generating_assets' | 'ready';
+  status: 'idle' | 'analyzing' | 'generating_assets' | 'paused' | 'ready';
   progress: number; // 0-100
   currentStep: string;
 }
\ No newline at end of file